@@ -1,6 +1,16 @@
-import { RainGenerator, RainParams, _defaultRainParams } from "./RainGenerator";
-import { ThunderGenerator, ThunderParams, _defaultThunderParams } from "./ThunderGenerator";
+import { RainGenerator, RainParams, _defaultRainParams, rainParamsSchema } from "./RainGenerator";
+import { ThunderGenerator, ThunderParams, _defaultThunderParams, thunderParamsSchema } from "./ThunderGenerator";
+import { WindGenerator, WindParams, _defaultWindParams, windParamsSchema } from "./WindGenerator";
 import { OscParam } from "./types/OscParam";
+import { Random } from "./types/Random";
+import { NoiseType } from "./types/NoiseType";
+import { createSeededRandom, forkRandom } from "./functions/createSeededRandom";
+import { audioBufferToWavBlob } from "./functions/encodeWav";
+import { eqGainsSpec, validateParams } from "./functions/validateParams";
+import { ParamSchema, ValidationMode } from "./types/ParamSchema";
+import { EventEmitter } from "./events/EventEmitter";
+import { NoiseDEvents } from "./types/NoiseDEvents";
+import { LookaheadScheduler } from "./scheduling/LookaheadScheduler";
 
 export type Range<T = number> = {
     min: T;
@@ -13,6 +23,8 @@ export interface NoiseDParams {
     eqGains: number[];
     rainParams: RainParams & { on: boolean };
     thunderParams: ThunderParams & { on: boolean };
+    windParams: WindParams & { on: boolean };
+    seed?: number;
 }
 
 export const _defaultNoiseDParams: NoiseDParams = {
@@ -21,25 +33,58 @@ export const _defaultNoiseDParams: NoiseDParams = {
     eqGains: new Array(10).fill(0),
     rainParams: { ..._defaultRainParams, on: true },
     thunderParams: { ..._defaultThunderParams, on: true },
+    windParams: { ..._defaultWindParams, on: false },
 };
 
-export class NoiseDController<T extends BaseAudioContext = AudioContext> {
+export const noiseDParamsSchema: ParamSchema<NoiseDParams> = {
+    masterVolume: { kind: "number", min: 0, max: 1, unit: "gain", default: _defaultNoiseDParams.masterVolume, description: "Master output volume" },
+    delayBetweenThunders: { kind: "range", min: 0, max: 600000, unit: "ms", default: _defaultNoiseDParams.delayBetweenThunders, description: "Random wait between two thunders" },
+    eqGains: eqGainsSpec(10),
+    rainParams: {
+        ...rainParamsSchema,
+        on: { kind: "boolean", default: true, description: "Whether the rain plays" },
+    },
+    thunderParams: {
+        ...thunderParamsSchema,
+        on: { kind: "boolean", default: true, description: "Whether thunders are scheduled" },
+    },
+    windParams: {
+        ...windParamsSchema,
+        on: { kind: "boolean", default: false, description: "Whether the wind blows" },
+    },
+    seed: { kind: "number", min: 0, max: 4294967295, unit: "", integer: true, default: 0, description: "Seed of the PRNG for reproducible output" },
+};
+
+export class NoiseDController<T extends BaseAudioContext = AudioContext> extends EventEmitter<NoiseDEvents> {
     private ctx: T;
     private rain: RainGenerator<T>;
     private thunder: ThunderGenerator<T>;
+    private wind: WindGenerator<T>;
     private masterGain: GainNode;
     private eqBands: BiquadFilterNode[] = [];
     private readonly eqFrequencies = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
     private params: NoiseDParams;
-    private thunderTimeout: number | null = null;
+    private cancelThunders: (() => void) | null = null;
     private running = false;
+    private random: Random;
+    private validationMode: ValidationMode = "clamp";
 
-    constructor(ctx: T, params: Partial<NoiseDParams> = {}) {
+    constructor(ctx: T, params: Partial<NoiseDParams> = {}, random?: Random) {
+        super();
         this.ctx = ctx;
-        this.params = { ..._defaultNoiseDParams, ...params };
+        this.params = { ..._defaultNoiseDParams, ...validateParams(noiseDParamsSchema, params) };
+        // An explicit PRNG wins over the seed; without either we fall back to Math.random
+        this.random = random
+            ?? (this.params.seed !== undefined ? createSeededRandom(this.params.seed) : Math.random);
         this.masterGain = this.ctx.createGain();
-        this.rain = new RainGenerator(this.ctx, this.params.rainParams);
-        this.thunder = new ThunderGenerator(this.ctx, this.params.thunderParams);
+        // Each generator draws from its own stream so their sequences don't depend on each other
+        this.rain = new RainGenerator(this.ctx, this.params.rainParams, forkRandom(this.random));
+        this.thunder = new ThunderGenerator(this.ctx, this.params.thunderParams, forkRandom(this.random));
+        this.wind = new WindGenerator(this.ctx, this.params.windParams, forkRandom(this.random));
+        this.rain.on("drop", e => this.emit("drop", e));
+        this.thunder.on("thunderScheduled", e => this.emit("thunderScheduled", e));
+        this.thunder.on("thunderStart", e => this.emit("thunderStart", e));
+        this.thunder.on("burst", e => this.emit("burst", e));
         // Create and chain EQ
         this.eqBands = this.eqFrequencies.map(freq => {
             const band = this.ctx.createBiquadFilter();
@@ -57,9 +102,10 @@ export class NoiseDController<T extends BaseAudioContext = AudioContext> {
             last = this.eqBands[i];
         }
 
-        // Now connect rain/thunder → EQ → master
+        // Now connect rain/thunder/wind → EQ → master
         this.rain.connect(this.eqBands[0]);
         this.thunder.connect(this.eqBands[0]);
+        this.wind.connect(this.eqBands[0]);
         last.connect(this.masterGain);
         this.masterGain.connect(this.ctx.destination);
         this._applyParams();
@@ -78,9 +124,11 @@ export class NoiseDController<T extends BaseAudioContext = AudioContext> {
         // Destroy sub-generators
         this.rain.destroy();
         this.thunder.destroy();
+        this.wind.destroy();
 
-        // Null references for safety
-        this.thunderTimeout = null;
+        // Cancel the thunder loop
+        this.cancelThunders?.();
+        this.cancelThunders = null;
     }
 
     public start() {
@@ -94,15 +142,18 @@ export class NoiseDController<T extends BaseAudioContext = AudioContext> {
         if (this.params.thunderParams.on) {
             this.scheduleThunder();
         }
+
+        if (this.params.windParams.on) {
+            this.wind.start();
+        }
     }
 
     public stop() {
         this.running = false;
         this.rain.stop();
-        if (this.thunderTimeout) {
-            clearTimeout(this.thunderTimeout);
-            this.thunderTimeout = null;
-        }
+        this.wind.stop();
+        this.cancelThunders?.();
+        this.cancelThunders = null;
     }
 
     public startRain() {
@@ -122,19 +173,43 @@ export class NoiseDController<T extends BaseAudioContext = AudioContext> {
 
     public stopThunder() {
         this.params.thunderParams.on = false;
-        if (this.thunderTimeout) {
-            clearTimeout(this.thunderTimeout);
-            this.thunderTimeout = null;
-        }
+        this.cancelThunders?.();
+        this.cancelThunders = null;
+    }
+
+    public startWind() {
+        this.params.windParams.on = true;
+        this.wind.start();
+    }
+
+    public stopWind() {
+        this.params.windParams.on = false;
+        this.wind.stop();
+    }
+
+    public setValidationMode(mode: ValidationMode) {
+        this.validationMode = mode;
+        this.rain.setValidationMode(mode);
+        this.thunder.setValidationMode(mode);
+        this.wind.setValidationMode(mode);
     }
 
     public setMasterVolume(value: number) {
+        value = this._validate({ masterVolume: value }).masterVolume!;
         this.params.masterVolume = value;
         this.masterGain.gain.setValueAtTime(value, this.ctx.currentTime);
     }
 
+    public setThunderLeadTime(seconds: number) {
+        this.thunder.setLeadTime(seconds);
+    }
+
+    public setDropEventInterval(seconds: number) {
+        this.rain.setDropEventInterval(seconds);
+    }
+
     public setDelayBetweenThunders(value: Range<number>) {
-        this.params.delayBetweenThunders = value;
+        this.params.delayBetweenThunders = this._validate({ delayBetweenThunders: value }).delayBetweenThunders!;
     }
 
     public setEqGain(index: number, value: number) {
@@ -144,15 +219,23 @@ export class NoiseDController<T extends BaseAudioContext = AudioContext> {
     }
 
     public updateRainParams(newRainParams: Partial<RainParams>) {
+        newRainParams = this._validate({ rainParams: newRainParams as NoiseDParams["rainParams"] }).rainParams!;
         this.params.rainParams = { ...this.params.rainParams, ...newRainParams };
         this.rain.setParams(this.params.rainParams);
     }
 
     public updateThunderParams(newThunderParams: Partial<ThunderParams>) {
+        newThunderParams = this._validate({ thunderParams: newThunderParams as NoiseDParams["thunderParams"] }).thunderParams!;
         this.params.thunderParams = { ...this.params.thunderParams, ...newThunderParams };
         this.thunder.setParams(this.params.thunderParams);
     }
 
+    public updateWindParams(newWindParams: Partial<WindParams>) {
+        newWindParams = this._validate({ windParams: newWindParams as NoiseDParams["windParams"] }).windParams!;
+        this.params.windParams = { ...this.params.windParams, ...newWindParams };
+        this.wind.setParams(newWindParams);
+    }
+
     private _applyParams() {
         this.setMasterVolume(this.params.masterVolume);
         if (this.params.eqGains.length === this.eqBands.length) {
@@ -162,86 +245,48 @@ export class NoiseDController<T extends BaseAudioContext = AudioContext> {
         }
         this.rain.setParams(this.params.rainParams);
         this.thunder.setParams(this.params.thunderParams);
+        this.wind.setParams(this.params.windParams);
+    }
+
+    private _validate(params: Partial<NoiseDParams>): Partial<NoiseDParams> {
+        return validateParams(noiseDParamsSchema, params, this.validationMode);
     }
 
     private scheduleThunder() {
         if (!this.running || !this.params.thunderParams.on) return;
 
-        const delay = this._rand(this.params.delayBetweenThunders.min, this.params.delayBetweenThunders.max);
-        this.thunderTimeout = window.setTimeout(() => {
-            this.thunder.triggerThunder();
-            this.scheduleThunder(); // loop
-        }, delay);
+        const nextDelay = () => this._rand(this.params.delayBetweenThunders.min, this.params.delayBetweenThunders.max) / 1000;
+        this.cancelThunders?.();
+        this.cancelThunders = LookaheadScheduler.for(this.ctx).schedule(this.ctx.currentTime + nextDelay(), when => {
+            this.thunder.triggerThunder(when);
+            return when + nextDelay();
+        });
     }
 
     private _rand(min: number, max: number) {
-        return Math.random() * (max - min) + min;
+        return this.random() * (max - min) + min;
     }
 
+    /**
+     * Renders the current params offline to a WAV blob. The render gets its
+     * own copy of the params and a fork of this controller's PRNG, so a
+     * seeded controller renders the same file every run.
+     */
     public async renderToFile(durationSec: number): Promise<Blob> {
         const sampleRate = this.ctx.sampleRate;
-        const offlineCtx = new OfflineAudioContext(2, durationSec * sampleRate, sampleRate);
-        const controller = new NoiseDController(offlineCtx, this.params);
+        const offlineCtx = new OfflineAudioContext(2, Math.ceil(durationSec * sampleRate), sampleRate);
+        const controller = new NoiseDController(offlineCtx, structuredClone(this.params), forkRandom(this.random));
         controller.start();
 
-        await offlineCtx.startRendering();
         const buffer = await offlineCtx.startRendering();
+        controller.destroy();
 
         const wavBlob = await this._bufferToWavBlob(buffer);
         return wavBlob;
     }
 
     private async _bufferToWavBlob(buffer: AudioBuffer): Promise<Blob> {
-        const numOfChan = buffer.numberOfChannels;
-        const length = buffer.length * numOfChan * 2 + 44;
-        const bufferArray = new ArrayBuffer(length);
-        const view = new DataView(bufferArray);
-
-        let offset = 0;
-
-        const writeString = (s: string) => {
-            for (let i = 0; i < s.length; i++) {
-                view.setUint8(offset++, s.charCodeAt(i));
-            }
-        };
-
-        const writeUint32 = (v: number) => {
-            view.setUint32(offset, v, true);
-            offset += 4;
-        };
-
-        const writeUint16 = (v: number) => {
-            view.setUint16(offset, v, true);
-            offset += 2;
-        };
-
-        writeString("RIFF");
-        writeUint32(length - 8);
-        writeString("WAVE");
-        writeString("fmt ");
-        writeUint32(16);
-        writeUint16(1);
-        writeUint16(numOfChan);
-        writeUint32(buffer.sampleRate);
-        writeUint32(buffer.sampleRate * numOfChan * 2);
-        writeUint16(numOfChan * 2);
-        writeUint16(16);
-        writeString("data");
-        writeUint32(length - offset - 4);
-
-        const interleaved = new Float32Array(buffer.length * numOfChan);
-        for (let ch = 0; ch < numOfChan; ch++) {
-            buffer.copyFromChannel(interleaved.subarray(ch, interleaved.length), ch);
-        }
-
-        const output = new Int16Array(interleaved.length);
-        for (let i = 0; i < interleaved.length; i++) {
-            const s = Math.max(-1, Math.min(1, interleaved[i]));
-            output[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-        }
-
-        new Uint8Array(bufferArray, offset).set(new Uint8Array(output.buffer));
-        return new Blob([bufferArray], { type: "audio/wav" });
+        return audioBufferToWavBlob(buffer);
     }
 
     public setRainVolume(value: number) {
@@ -249,7 +294,7 @@ export class NoiseDController<T extends BaseAudioContext = AudioContext> {
         this.rain.setVolume(value);
     }
 
-    public setRainNoiseType(value: 'pink' | 'white') {
+    public setRainNoiseType(value: NoiseType) {
         this.params.rainParams.noiseType = value;
         this.rain.setNoiseType(value);
     }
@@ -310,6 +355,7 @@ export class NoiseDController<T extends BaseAudioContext = AudioContext> {
     }
 
     public setThunderParams(newParams: Partial<ThunderParams>) {
+        newParams = this._validate({ thunderParams: newParams as NoiseDParams["thunderParams"] }).thunderParams!;
         this.thunder.setParams(newParams);
         this.params.thunderParams = { ...this.params.thunderParams, ...newParams };
         if (newParams.reverbDuration || newParams.reverbDecay) {
@@ -1,6 +1,28 @@
 import { OscParam } from "./types/OscParam";
-
-export type NoiseType = 'pink' | 'white';
+import { Random } from "./types/Random";
+import { NoiseType } from "./types/NoiseType";
+import { SurfaceWeights } from "./types/Surface";
+import { DropModel, DropSizeDistribution } from "./types/DropModel";
+import { DropLayerParams } from "./types/DropLayer";
+import { DropTimingParams } from "./types/DropTiming";
+import { createNoiseBuffer } from "./functions/createNoiseBuffer";
+import { createNoiseBed, NoiseBed } from "./functions/createNoiseBed";
+import { noiseTypes } from "./functions/fillNoise";
+import { createImpulseResponse } from "./functions/createImpulseResponse";
+import { UNFILTERED, dropLayersSchema, withLayerDefaults } from "./functions/dropLayers";
+import { sampleDropRadius, scheduleBubbleDrop } from "./functions/scheduleBubbleDrop";
+import { _defaultSurfaceWeights, pickSurface, scheduleSurfaceImpact, surfaceWeightsSchema } from "./functions/scheduleSurfaceImpact";
+import { eqGainsSpec, validateParams } from "./functions/validateParams";
+import { ParamSchema, ValidationMode } from "./types/ParamSchema";
+import { EventEmitter } from "./events/EventEmitter";
+import { RainEvents } from "./types/NoiseDEvents";
+import { LookaheadScheduler } from "./scheduling/LookaheadScheduler";
+import { DropTimer, _defaultDropTiming, dropTimingSchema } from "./scheduling/DropTimer";
+
+export { NoiseType };
+
+// How far ahead the noise bed is queued, in seconds
+const NOISE_AHEAD = 2;
 
 export interface RainParams {
     volume: number;
@@ -13,12 +35,24 @@ export interface RainParams {
     dropDryLevel: number;
     dropWetLevel: number;
     dropRate: number;
+    /** How drops are spaced in time; every layer averages out to its own rate. */
+    dropTiming: DropTimingParams;
     dropMinPitch: OscParam;
     dropMaxPitch: OscParam;
     dropDecayTime: number;
     dropReverbLevel: OscParam;
     dropPanRange: OscParam;
     dropQ: number;
+    dropSurfaces: SurfaceWeights;
+
+    dropModel: DropModel;
+    dropRadius: number;
+    dropRadiusSpread: number;
+    dropSizeDistribution: DropSizeDistribution;
+    dropBubbleShare: number;
+
+    /** Named drop layers; empty plays the drop params above as a single layer. */
+    dropLayers: Record<string, DropLayerParams>;
 }
 
 export const _defaultRainParams: RainParams = {
@@ -30,15 +64,48 @@ export const _defaultRainParams: RainParams = {
     dropDryLevel: 0.5,
     dropWetLevel: 0.5,
     dropRate: 30,
+    dropTiming: _defaultDropTiming,
     dropMinPitch: { value: 300, osc: false, amp: 100, freq: 0.1 },
     dropMaxPitch: { value: 800, osc: false, amp: 500, freq: 0.1 },
     dropDecayTime: 0.2,
     dropReverbLevel: { value: 0.4, osc: false, amp: 0.2, freq: 0.1 },
     dropPanRange: { value: 1.0, osc: false, amp: 0.5, freq: 0.1 },
     dropQ: 1,
+    dropSurfaces: _defaultSurfaceWeights,
+    dropModel: 'noise',
+    dropRadius: 1.5,
+    dropRadiusSpread: 0.5,
+    dropSizeDistribution: 'exponential',
+    dropBubbleShare: 0.3,
+    dropLayers: {},
 };
 
-export class RainGenerator<T extends BaseAudioContext = AudioContext> {
+export const rainParamsSchema: ParamSchema<RainParams> = {
+    volume: { kind: "number", min: 0, max: 1, unit: "gain", default: _defaultRainParams.volume, description: "Output volume of the rain" },
+    eqGains: eqGainsSpec(10),
+    noiseLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: _defaultRainParams.noiseLevel, description: "Level of the background noise bed" },
+    noiseType: { kind: "enum", values: noiseTypes, default: _defaultRainParams.noiseType, description: "Color of the background noise" },
+    noiseFilterFreq: { kind: "osc", min: 20, max: 20000, unit: "Hz", default: _defaultRainParams.noiseFilterFreq, description: "Lowpass cutoff of the noise bed" },
+    dropDryLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: _defaultRainParams.dropDryLevel, description: "Level of the unprocessed drops" },
+    dropWetLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: _defaultRainParams.dropWetLevel, description: "Level of the drops sent to the reverb" },
+    dropRate: { kind: "number", min: 0.1, max: 500, unit: "drops/s", default: _defaultRainParams.dropRate, description: "Average number of drops per second" },
+    dropTiming: dropTimingSchema,
+    dropMinPitch: { kind: "osc", min: 20, max: 20000, unit: "Hz", default: _defaultRainParams.dropMinPitch, description: "Lowest bandpass frequency of a drop" },
+    dropMaxPitch: { kind: "osc", min: 20, max: 20000, unit: "Hz", default: _defaultRainParams.dropMaxPitch, description: "Highest bandpass frequency of a drop" },
+    dropDecayTime: { kind: "number", min: 0.005, max: 2, unit: "s", default: _defaultRainParams.dropDecayTime, description: "Length of a single drop" },
+    dropReverbLevel: { kind: "osc", min: 0, max: 1, unit: "gain", default: _defaultRainParams.dropReverbLevel, description: "Reverb return level" },
+    dropPanRange: { kind: "osc", min: 0, max: 1, unit: "pan", default: _defaultRainParams.dropPanRange, description: "Stereo spread of the drops" },
+    dropQ: { kind: "number", min: 0.0001, max: 100, unit: "Q", default: _defaultRainParams.dropQ, description: "Resonance of the drop bandpass" },
+    dropSurfaces: surfaceWeightsSchema,
+    dropModel: { kind: "enum", values: ["noise", "bubble"], default: _defaultRainParams.dropModel, description: "Filtered noise drops, or impact clicks with ringing bubbles" },
+    dropRadius: { kind: "number", min: 0.1, max: 5, unit: "mm", default: _defaultRainParams.dropRadius, description: "Mean radius of a drop in the bubble model" },
+    dropRadiusSpread: { kind: "number", min: 0, max: 1, unit: "", default: _defaultRainParams.dropRadiusSpread, description: "Relative width of the drop size distribution" },
+    dropSizeDistribution: { kind: "enum", values: ["uniform", "normal", "exponential"], default: _defaultRainParams.dropSizeDistribution, description: "Shape of the drop size distribution" },
+    dropBubbleShare: { kind: "number", min: 0, max: 1, unit: "", default: _defaultRainParams.dropBubbleShare, description: "Share of drops that trap a ringing bubble" },
+    dropLayers: dropLayersSchema,
+};
+
+export class RainGenerator<T extends BaseAudioContext = AudioContext> extends EventEmitter<RainEvents> {
     private audioCtx: T;
     private output: GainNode;
     private noiseGainNode: GainNode;
@@ -48,16 +115,25 @@ export class RainGenerator<T extends BaseAudioContext = AudioContext> {
     private dryGain: GainNode;
     private wetGain: GainNode;
     private noiseFilter: BiquadFilterNode;
-    private noiseNode: AudioBufferSourceNode | null;
-    private dropInterval: ReturnType<typeof setInterval> | null;
+    private noiseBed: NoiseBed | null;
+    private cancelNoise: (() => void) | null;
+    private scheduler: LookaheadScheduler;
+    private dropStreams = new Map<string, { timer: DropTimer; next: number; rate: number; cancel: () => void }>();
     private running: boolean;
     private params: RainParams;
     private eqBands: BiquadFilterNode[];
     private lfoMap: Map<string, { osc: OscillatorNode; gain: GainNode }>;
+    private random: Random;
+    private impactBuffer: AudioBuffer | null = null;
+    private validationMode: ValidationMode = "clamp";
+    private dropEventInterval = 0.05;
+    private lastDropEventTime = -Infinity;
     private readonly eqFrequencies = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
 
-    constructor(audioCtx: T, params?: Partial<RainParams>) {
+    constructor(audioCtx: T, params?: Partial<RainParams>, random: Random = Math.random) {
+        super();
         this.audioCtx = audioCtx;
+        this.random = random;
         this.output = this.audioCtx.createGain();
         this.noiseGainNode = this.audioCtx.createGain();
         this.noiseFilter = this.audioCtx.createBiquadFilter();
@@ -68,12 +144,13 @@ export class RainGenerator<T extends BaseAudioContext = AudioContext> {
         this.reverbNode = this.audioCtx.createConvolver();
         this.dryGain = this.audioCtx.createGain();
         this.wetGain = this.audioCtx.createGain();
-        this.noiseNode = null;
-        this.dropInterval = null;
+        this.noiseBed = null;
+        this.cancelNoise = null;
+        this.scheduler = LookaheadScheduler.for(audioCtx);
         this.running = false;
         this.lfoMap = new Map();
 
-        this.params = { ..._defaultRainParams, ...params };
+        this.params = { ..._defaultRainParams, ...validateParams(rainParamsSchema, params ?? {}) };
 
         this.eqBands = this.eqFrequencies.map(freq => {
             const band = this.audioCtx.createBiquadFilter();
@@ -119,8 +196,7 @@ export class RainGenerator<T extends BaseAudioContext = AudioContext> {
         this.lfoMap.clear();
 
         // Null references (optional, helps GC and safety)
-        this.noiseNode = null;
-        this.dropInterval = null;
+        this.noiseBed = null;
     }
 
     private _connectNodes() {
@@ -136,15 +212,7 @@ export class RainGenerator<T extends BaseAudioContext = AudioContext> {
     }
 
     private _generateImpulseResponse() {
-        const length = this.audioCtx.sampleRate * 2;
-        const impulse = this.audioCtx.createBuffer(2, length, this.audioCtx.sampleRate);
-        for (let channel = 0; channel < 2; channel++) {
-            const data = impulse.getChannelData(channel);
-            for (let i = 0; i < length; i++) {
-                data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 2.5);
-            }
-        }
-        this.reverbNode.buffer = impulse;
+        this.reverbNode.buffer = createImpulseResponse(this.audioCtx, 2, 2.5, this.random);
     }
 
     private setOscParam(param: OscParam, target: AudioParam, id: string) {
@@ -207,18 +275,11 @@ export class RainGenerator<T extends BaseAudioContext = AudioContext> {
     public stop() {
         this.running = false;
 
-        // Stop and disconnect the noise node
-        if (this.noiseNode) {
-            this.noiseNode.stop();
-            this.noiseNode.disconnect();
-            this.noiseNode = null;
-        }
+        // Stop and disconnect the noise bed
+        this._stopNoise();
 
-        // Clear the drop interval
-        if (this.dropInterval) {
-            clearInterval(this.dropInterval);
-            this.dropInterval = null;
-        }
+        // Cancel the scheduled drops
+        this._stopDrops();
 
         // Stop and disconnect all LFOs
         this.lfoMap.forEach(({ osc, gain }) => {
@@ -239,32 +300,33 @@ export class RainGenerator<T extends BaseAudioContext = AudioContext> {
     }
 
     public setNoiseFilterFreq(param: OscParam) {
+        param = this._validate("noiseFilterFreq", param);
         this.params.noiseFilterFreq = param;
         this.setOscParam(param, this.noiseFilter.frequency, 'noiseFilterFreq');
     }
 
     public setDropReverbLevel(param: OscParam) {
+        param = this._validate("dropReverbLevel", param);
         this.params.dropReverbLevel = param;
         this.setOscParam(param, this.wetGain.gain, 'dropReverbLevel');
     }
 
     public setDropRate(param: number) {
-        this.params.dropRate = param;
-        if (this.dropInterval) clearInterval(this.dropInterval);
-        if (this.running) this._startDrops();
+        this.params.dropRate = this._validate("dropRate", param);
+        if (this.running) this._retimeDrops();
     }
 
     public setPanRange(param: OscParam) {
-        this.params.dropPanRange = param;
+        this.params.dropPanRange = this._validate("dropPanRange", param);
     }
 
     public setPitchRange(min: OscParam, max: OscParam) {
-        this.params.dropMinPitch = min;
-        this.params.dropMaxPitch = max;
+        this.params.dropMinPitch = this._validate("dropMinPitch", min);
+        this.params.dropMaxPitch = this._validate("dropMaxPitch", max);
     }
 
     public setDecayTime(param: number) {
-        this.params.dropDecayTime = param;
+        this.params.dropDecayTime = this._validate("dropDecayTime", param);
     }
 
     public setNoiseLevel(value: number) {
@@ -280,7 +342,15 @@ export class RainGenerator<T extends BaseAudioContext = AudioContext> {
     }
 
     public setDropQ(value: number) {
-        this.params.dropQ = value;
+        this.params.dropQ = this._validate("dropQ", value);
+    }
+
+    /**
+     * Mixes drops landing on the given surfaces by weight; surfaces left out
+     * keep their weight. With every weight at 0 the drops are plain noise.
+     */
+    public setDropSurfaces(weights: Partial<SurfaceWeights>) {
+        this.params.dropSurfaces = this._validate("dropSurfaces", { ...this.params.dropSurfaces, ...weights });
     }
 
     public setVolume(value: number) {
@@ -296,7 +366,16 @@ export class RainGenerator<T extends BaseAudioContext = AudioContext> {
     }
 
     public setParams(newParams: Partial<RainParams>) {
-        this._applyParams(newParams);
+        this._applyParams(validateParams(rainParamsSchema, newParams, this.validationMode));
+    }
+
+    public setValidationMode(mode: ValidationMode) {
+        this.validationMode = mode;
+    }
+
+    private _validate<K extends keyof RainParams>(key: K, value: RainParams[K]): RainParams[K] {
+        const checked = validateParams(rainParamsSchema, { [key]: value } as Partial<RainParams>, this.validationMode);
+        return checked[key] as RainParams[K];
     }
 
     private _applyParams(newParams: Partial<RainParams>) {
@@ -306,85 +385,177 @@ export class RainGenerator<T extends BaseAudioContext = AudioContext> {
                 this.eqBands[i].gain.value = gain;
             });
         }
+        const layersChanged = updated.dropLayers !== this.params.dropLayers;
         this.params = updated;
+
+        // Layers added or removed get their own drop stream
+        if (layersChanged && this.running) this._startDrops();
+        else if (this.running) this._retimeDrops();
     }
 
     private _startNoise() {
-        if (this.noiseNode) {
-            this.noiseNode.stop();
-            this.noiseNode.disconnect();
-            this.noiseNode = null;
-        }
+        this._stopNoise();
+
+        // The bed is queued a couple of seconds ahead, topped up every second
+        const bed = createNoiseBed(this.audioCtx, this.params.noiseType, this.random);
+        bed.output.connect(this.noiseGainNode); // ✅ must be connected
+        this.noiseBed = bed;
+        this.cancelNoise = this.scheduler.schedule(this.audioCtx.currentTime, when => {
+            bed.fill(when + NOISE_AHEAD);
+            return when + 1;
+        });
+    }
 
-        const bufferSize = 2 * this.audioCtx.sampleRate;
-        const noiseBuffer = this.audioCtx.createBuffer(1, bufferSize, this.audioCtx.sampleRate);
-        const output = noiseBuffer.getChannelData(0);
-
-        if (this.params.noiseType === 'white') {
-            for (let i = 0; i < bufferSize; i++) {
-                output[i] = Math.random() * 2 - 1;
-            }
-        } else {
-            // Pink noise
-            let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
-            for (let i = 0; i < bufferSize; i++) {
-                const white = Math.random() * 2 - 1;
-                b0 = 0.99886 * b0 + white * 0.0555179;
-                b1 = 0.99332 * b1 + white * 0.0750759;
-                b2 = 0.969 * b2 + white * 0.153852;
-                b3 = 0.8665 * b3 + white * 0.3104856;
-                b4 = 0.55 * b4 + white * 0.5329522;
-                b5 = -0.7616 * b5 - white * 0.016898;
-                output[i] = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
-                output[i] *= 0.11;
-                b6 = white * 0.115926;
-            }
+    private _stopNoise() {
+        this.cancelNoise?.();
+        this.cancelNoise = null;
+        if (this.noiseBed) {
+            this.noiseBed.stop();
+            this.noiseBed.output.disconnect();
+            this.noiseBed = null;
         }
+    }
 
-        this.noiseNode = this.audioCtx.createBufferSource();
-        this.noiseNode.buffer = noiseBuffer;
-        this.noiseNode.loop = true;
-        this.noiseNode.connect(this.noiseGainNode); // ✅ must be connected
-        this.noiseNode.start();
+    // Without named layers the top-level drop params play as a single one
+    private _layers(): Record<string, DropLayerParams> {
+        if (Object.keys(this.params.dropLayers).length > 0) return withLayerDefaults(this.params.dropLayers);
+        return {
+            main: {
+                level: this.params.dropDryLevel,
+                // The reverb bus already applies dropWetLevel
+                reverbSend: 1,
+                rate: this.params.dropRate,
+                minPitch: this.params.dropMinPitch.value,
+                maxPitch: this.params.dropMaxPitch.value,
+                decayTime: this.params.dropDecayTime,
+                q: this.params.dropQ,
+                panRange: this.params.dropPanRange.value,
+                filterFreq: UNFILTERED,
+            },
+        };
     }
 
     private _startDrops() {
-        const playDrop = () => {
-            const now = this.audioCtx.currentTime;
-            const duration = Math.min(this.params.dropDecayTime, 0.2);
-            const buffer = this.audioCtx.createBuffer(1, this.audioCtx.sampleRate * duration, this.audioCtx.sampleRate);
-            const data = buffer.getChannelData(0);
-            for (let i = 0; i < data.length; i++) {
-                const fade = Math.pow(1 - i / data.length, 2.5);
-                data[i] = (Math.random() * 2 - 1) * fade;
-            }
-            const drop = this.audioCtx.createBufferSource();
-            drop.buffer = buffer;
-
-            const filter = this.audioCtx.createBiquadFilter();
-            filter.type = 'bandpass';
-            filter.frequency.value = this.params.dropMinPitch.value + Math.random() * (this.params.dropMaxPitch.value - this.params.dropMinPitch.value);
-            filter.Q.value = this.params.dropQ;
-
-            const pan = this.audioCtx.createStereoPanner();
-            pan.pan.value = (Math.random() * 2 - 1) * this.params.dropPanRange.value;
-
-            const dryGain = this.audioCtx.createGain();
-            dryGain.gain.value = this.params.dropDryLevel;
-
-            drop.connect(filter);
-            filter.connect(pan);
-            pan.connect(this.dropGainNode);
-            pan.connect(dryGain);
-            dryGain.connect(this.dryDropGainNode);
-
-            drop.start(now);
+        this._stopDrops();
+        Object.keys(this._layers()).forEach(name => this._startDropStream(name, new DropTimer(this.random)));
+    }
+
+    // `next` is the time of the first drop, drawn at the layer's rate when left out
+    private _startDropStream(name: string, timer: DropTimer, next?: number) {
+        const now = this.audioCtx.currentTime;
+        const { rate } = this._layers()[name];
+        const stream = { timer, next: next ?? now + timer.next(now, rate, this.params.dropTiming), rate, cancel: () => { } };
+        const playDrop = (when: number, late: boolean) => {
+            const current = this._layers()[name];
+            if (!current) return null;
+            // Drops missed while the timer was throttled are skipped rather than played at once
+            if (!late) this._playDrop(when, current);
+            stream.rate = current.rate;
+            stream.next = when + timer.next(when, current.rate, this.params.dropTiming);
+            return stream.next;
         };
+        this.dropStreams.set(name, stream);
+        stream.cancel = this.scheduler.schedule(stream.next, playDrop);
+    }
+
+    // A gap drawn at the old rate would hold the stream back, so what's left of it is rescaled
+    private _retimeDrops() {
+        const now = this.audioCtx.currentTime;
+        const layers = this._layers();
+        this.dropStreams.forEach((stream, name) => {
+            const layer = layers[name];
+            if (!layer || layer.rate === stream.rate || stream.next <= now) return;
+            stream.cancel();
+            this._startDropStream(name, stream.timer, now + (stream.next - now) * stream.rate / layer.rate);
+        });
+    }
+
+    private _stopDrops() {
+        this.dropStreams.forEach(stream => stream.cancel());
+        this.dropStreams.clear();
+    }
+
+    private _playDrop(when: number, layer: DropLayerParams) {
+        // The pan is drawn after the drop's own values, so seeded noise drops sound as before
+        const pan = this.audioCtx.createStereoPanner();
+        const placeDrop = () => {
+            pan.pan.value = (this.random() * 2 - 1) * layer.panRange;
+        };
+
+        const dryGain = this.audioCtx.createGain();
+        dryGain.gain.value = layer.level;
+        const sendGain = this.audioCtx.createGain();
+        sendGain.gain.value = layer.reverbSend;
+
+        pan.connect(sendGain);
+        sendGain.connect(this.dropGainNode);
+        pan.connect(dryGain);
+        dryGain.connect(this.dryDropGainNode);
+
+        // A distant layer is lowpassed into a wash
+        let input: AudioNode = pan;
+        if (layer.filterFreq < UNFILTERED) {
+            const lowpass = this.audioCtx.createBiquadFilter();
+            lowpass.type = 'lowpass';
+            lowpass.frequency.value = layer.filterFreq;
+            lowpass.connect(pan);
+            input = lowpass;
+        }
 
-        const baseRate = this.params.dropRate;
-        const baseInterval = 1000 / baseRate;
+        const surface = pickSurface(this.params.dropSurfaces, this.random);
+        if (surface) {
+            this.impactBuffer ??= createNoiseBuffer(this.audioCtx, 'white', this.random, 1);
+            const pitch = scheduleSurfaceImpact(this.audioCtx, input, when, surface, this.impactBuffer, this.random);
+            placeDrop();
+            this._emitDrop(when, pitch, pan.pan.value);
+            return;
+        }
+
+        if (this.params.dropModel === 'bubble') {
+            this.impactBuffer ??= createNoiseBuffer(this.audioCtx, 'white', this.random, 1);
+            const radius = sampleDropRadius(this.params.dropRadius, this.params.dropRadiusSpread, this.params.dropSizeDistribution, this.random);
+            const bubble = this.random() < this.params.dropBubbleShare;
+            const pitch = scheduleBubbleDrop(this.audioCtx, input, when, radius, bubble, this.impactBuffer, this.random);
+            placeDrop();
+            this._emitDrop(when, pitch, pan.pan.value);
+            return;
+        }
+
+        const duration = Math.min(layer.decayTime, 0.2);
+        const buffer = this.audioCtx.createBuffer(1, this.audioCtx.sampleRate * duration, this.audioCtx.sampleRate);
+        const data = buffer.getChannelData(0);
+        for (let i = 0; i < data.length; i++) {
+            const fade = Math.pow(1 - i / data.length, 2.5);
+            data[i] = (this.random() * 2 - 1) * fade;
+        }
+        const drop = this.audioCtx.createBufferSource();
+        drop.buffer = buffer;
+
+        const filter = this.audioCtx.createBiquadFilter();
+        filter.type = 'bandpass';
+        filter.frequency.value = layer.minPitch + this.random() * (layer.maxPitch - layer.minPitch);
+        filter.Q.value = layer.q;
+        placeDrop();
+
+        this._emitDrop(when, filter.frequency.value, pan.pan.value);
+
+        drop.connect(filter);
+        filter.connect(input);
+        drop.start(when);
+    }
+
+    /**
+     * Minimum time in seconds between two `drop` events. Drops in between
+     * still play, they just aren't reported.
+     */
+    public setDropEventInterval(seconds: number) {
+        this.dropEventInterval = seconds;
+    }
 
-        this.dropInterval = setInterval(playDrop, baseInterval);
+    private _emitDrop(time: number, pitch: number, pan: number) {
+        if (time - this.lastDropEventTime < this.dropEventInterval || !this.hasListeners('drop')) return;
+        this.lastDropEventTime = time;
+        this.emit('drop', { time, pitch, pan });
     }
 
     public connect(node: AudioNode) {
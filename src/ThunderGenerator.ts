@@ -1,8 +1,21 @@
 import { createImpulseResponse } from "./functions/createImpulseResponse";
+import { createNWaveThunderBuffer } from "./functions/generateNWaveThunder";
+import { _defaultThunderTypeWeights, applyThunderType, pickThunderType, thunderTypeWeightsSchema } from "./functions/thunderTypes";
+import { Random } from "./types/Random";
 import { RandParam } from "./types/RandParam";
-export type ThunderParamsLimits = Record<keyof ThunderParams, { min: number; max: number }>;
+import { ThunderModel } from "./types/ThunderModel";
+import { ThunderTypeWeights } from "./types/ThunderType";
+import { ParamSchema, ValidationMode } from "./types/ParamSchema";
+import { eqGainsSpec, validateParams } from "./functions/validateParams";
+import { EventEmitter } from "./events/EventEmitter";
+import { ThunderEvents } from "./types/NoiseDEvents";
+import { LookaheadScheduler } from "./scheduling/LookaheadScheduler";
+
+export type ThunderParamsLimits = ParamSchema<ThunderParams>;
 
 export interface ThunderParams {
+    /** How the next thunder is synthesized; the channel params below only apply to `nwave`. */
+    model: ThunderModel;
     volume: RandParam;
     duration: RandParam;
     filterFreq: RandParam;
@@ -20,9 +33,16 @@ export interface ThunderParams {
     rumbleFreqEnd: RandParam;
     rumbleVolume: RandParam;
     rumbleDecay: RandParam;
+    distance: RandParam;
+    channelLength: RandParam;
+    tortuosity: RandParam;
+    orientation: RandParam;
+    /** Named thunder types to mix by weight; each thunder of a type plays these params scaled by its preset. */
+    thunderTypes: ThunderTypeWeights;
 }
 
 export const _defaultThunderParams: ThunderParams = {
+    model: 'classic',
     volume: {
         value: 0.5,
         rand: false,
@@ -99,21 +119,77 @@ export const _defaultThunderParams: ThunderParams = {
         value: 8,
         rand: false,
         dist: 2
-    }
+    },
+    distance: {
+        value: 2000,
+        rand: false,
+        dist: 1000
+    },
+    channelLength: {
+        value: 3000,
+        rand: false,
+        dist: 1000
+    },
+    tortuosity: {
+        value: 0.4,
+        rand: false,
+        dist: 0.2
+    },
+    orientation: {
+        value: 70,
+        rand: false,
+        dist: 20
+    },
+    thunderTypes: _defaultThunderTypeWeights
 }
 
-export class ThunderGenerator<T extends BaseAudioContext = AudioContext> {
+// Ramped params (volumes, frequencies) keep a positive minimum: exponential ramps reject zero
+export const thunderParamsSchema: ThunderParamsLimits = {
+    model: { kind: "enum", values: ["classic", "nwave"], default: _defaultThunderParams.model, description: "Synthesis model of the next thunder" },
+    volume: { kind: "rand", min: 0.001, max: 1, unit: "gain", default: _defaultThunderParams.volume, description: "Peak volume of a burst" },
+    duration: { kind: "rand", min: 0.05, max: 20, unit: "s", default: _defaultThunderParams.duration, description: "Length of a burst" },
+    filterFreq: { kind: "rand", min: 20, max: 20000, unit: "Hz", default: _defaultThunderParams.filterFreq, description: "Starting lowpass cutoff of a burst" },
+    burstCount: { kind: "rand", min: 1, max: 20, unit: "bursts", default: _defaultThunderParams.burstCount, description: "Number of bursts per thunder" },
+    delayMs: { kind: "number", min: 0, max: 60000, unit: "ms", default: _defaultThunderParams.delayMs, description: "Delay between triggering and the first sound" },
+    reverbDuration: { kind: "rand", min: 0.1, max: 10, unit: "s", default: _defaultThunderParams.reverbDuration, description: "Length of the generated reverb" },
+    reverbDecay: { kind: "rand", min: 0.1, max: 10, unit: "exponent", default: _defaultThunderParams.reverbDecay, description: "Decay curve of the generated reverb" },
+    reverbWetLevel: { kind: "rand", min: 0, max: 1, unit: "gain", default: _defaultThunderParams.reverbWetLevel, description: "Reverb send level of a burst" },
+    subLevel: { kind: "rand", min: 0.001, max: 1, unit: "gain", default: _defaultThunderParams.subLevel, description: "Level of the sub oscillator" },
+    panRange: { kind: "rand", min: 0, max: 1, unit: "pan", default: _defaultThunderParams.panRange, description: "Stereo spread of the bursts" },
+    highPassFreq: { kind: "rand", min: 10, max: 20000, unit: "Hz", default: _defaultThunderParams.highPassFreq, description: "Highpass cutoff of a burst" },
+    crackleAmount: { kind: "rand", min: 0, max: 10, unit: "amount", default: _defaultThunderParams.crackleAmount, description: "Amount of crackle in the tail" },
+    eqGains: eqGainsSpec(10),
+    rumbleFreqStart: { kind: "rand", min: 1, max: 500, unit: "Hz", default: _defaultThunderParams.rumbleFreqStart, description: "Starting frequency of the rumble" },
+    rumbleFreqEnd: { kind: "rand", min: 1, max: 500, unit: "Hz", default: _defaultThunderParams.rumbleFreqEnd, description: "Final frequency of the rumble" },
+    rumbleVolume: { kind: "rand", min: 0.001, max: 1, unit: "gain", default: _defaultThunderParams.rumbleVolume, description: "Volume of the rumble" },
+    rumbleDecay: { kind: "rand", min: 0.1, max: 30, unit: "s", default: _defaultThunderParams.rumbleDecay, description: "Length of the rumble" },
+    distance: { kind: "rand", min: 50, max: 20000, unit: "m", default: _defaultThunderParams.distance, description: "Horizontal distance to the lightning channel (nwave)" },
+    channelLength: { kind: "rand", min: 10, max: 20000, unit: "m", default: _defaultThunderParams.channelLength, description: "Length of the lightning channel (nwave)" },
+    tortuosity: { kind: "rand", min: 0, max: 1, unit: "amount", default: _defaultThunderParams.tortuosity, description: "How jagged the lightning channel is (nwave)" },
+    orientation: { kind: "rand", min: 0, max: 90, unit: "deg", default: _defaultThunderParams.orientation, description: "Angle of the channel above the horizon; 90 is vertical (nwave)" },
+    thunderTypes: thunderTypeWeightsSchema,
+};
+
+export class ThunderGenerator<T extends BaseAudioContext = AudioContext> extends EventEmitter<ThunderEvents> {
     private ctx: T;
     private reverbBuffer: AudioBuffer | null = null;
     private output: GainNode;
     private limiter: DynamicsCompressorNode;
     private params: ThunderParams;
     private eqBands: BiquadFilterNode[] = [];
+    private random: Random;
+    private validationMode: ValidationMode = "clamp";
+    private leadTime = 0;
+    private scheduler: LookaheadScheduler;
+    private pending = new Set<() => void>();
     private readonly eqFrequencies = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
 
-    constructor(audioCtx: T, params?: Partial<ThunderParams>) {
+    constructor(audioCtx: T, params?: Partial<ThunderParams>, random: Random = Math.random) {
+        super();
         this.ctx = audioCtx;
-        this.params = { ..._defaultThunderParams, ...params };
+        this.random = random;
+        this.scheduler = LookaheadScheduler.for(audioCtx);
+        this.params = { ..._defaultThunderParams, ...validateParams(thunderParamsSchema, params ?? {}) };
 
         this.output = this.ctx.createGain();
 
@@ -153,8 +229,9 @@ export class ThunderGenerator<T extends BaseAudioContext = AudioContext> {
         // Clear reverb buffer reference (optional, helps GC)
         this.reverbBuffer = null;
 
-        // Optional: If you're calling `triggerThunder()` repeatedly via setInterval somewhere,
-        // make sure to clear that interval outside or track and cancel it here.
+        // Cancel thunders and bursts that are scheduled but haven't started yet
+        this.pending.forEach(cancel => cancel());
+        this.pending.clear();
 
         // No scheduled `OscillatorNode`/`BufferSourceNode` references stored in fields,
         // so the dynamically created nodes (osc, rumbleOsc, noise, brown, etc.)
@@ -167,63 +244,85 @@ export class ThunderGenerator<T extends BaseAudioContext = AudioContext> {
     setGeneratedReverb() {
         const duration = this.params.reverbDuration?.value
             ? this.params.reverbDuration.rand
-                ? this.params.reverbDuration.value + (Math.random() * this.params.reverbDuration.dist)
+                ? this.params.reverbDuration.value + (this.random() * this.params.reverbDuration.dist)
                 : this.params.reverbDuration.value
             : 2;
 
         const decay = this.params.reverbDecay?.value
             ? this.params.reverbDecay.rand
-                ? this.params.reverbDecay.value + (Math.random() * this.params.reverbDecay.dist)
+                ? this.params.reverbDecay.value + (this.random() * this.params.reverbDecay.dist)
                 : this.params.reverbDecay.value
             : 2;
 
         this.reverbBuffer = createImpulseResponse(
             this.ctx,
             duration,
-            decay
+            decay,
+            this.random
         );
     }
 
-    triggerThunder() {
-        const delay = this.params.delayMs ?? 0;
-        const rumbleFreqStart = this.params.rumbleFreqStart?.value
-            ? this.params.rumbleFreqStart.rand
-                ? this.params.rumbleFreqStart.value + (Math.random() * this.params.rumbleFreqStart.dist)
-                : this.params.rumbleFreqStart.value
+    /**
+     * Delays every thunder by `seconds` after its `thunderScheduled` event, so
+     * visuals such as a lightning flash can run ahead of the sound.
+     */
+    setLeadTime(seconds: number) {
+        this.leadTime = Math.max(0, seconds);
+    }
+
+    /**
+     * Schedules a thunder `delayMs` (plus the lead time) after `when`, which
+     * defaults to now on the audio clock.
+     */
+    triggerThunder(when: number = this.ctx.currentTime) {
+        const delay = (this.params.delayMs ?? 0) + this.leadTime * 1000;
+        const start = when + delay / 1000;
+        const type = pickThunderType(this.params.thunderTypes, this.random);
+        const params = type ? applyThunderType(this.params, type, _defaultThunderParams, thunderParamsSchema) : this.params;
+        this.emit("thunderScheduled", { time: start, leadTime: start - this.ctx.currentTime, type: type ?? undefined });
+
+        if (params.model === 'nwave') {
+            this._scheduleAt(start, now => this._playNWaveThunder(params, now));
+            return;
+        }
+
+        const rumbleFreqStart = params.rumbleFreqStart?.value
+            ? params.rumbleFreqStart.rand
+                ? params.rumbleFreqStart.value + (this.random() * params.rumbleFreqStart.dist)
+                : params.rumbleFreqStart.value
             : 30;
-        const rumbleFreqEnd = this.params.rumbleFreqEnd?.value
-            ? this.params.rumbleFreqEnd.rand
-                ? this.params.rumbleFreqEnd.value + (Math.random() * this.params.rumbleFreqEnd.dist)
-                : this.params.rumbleFreqEnd.value
+        const rumbleFreqEnd = params.rumbleFreqEnd?.value
+            ? params.rumbleFreqEnd.rand
+                ? params.rumbleFreqEnd.value + (this.random() * params.rumbleFreqEnd.dist)
+                : params.rumbleFreqEnd.value
             : 20;
-        const rumbleVolume = this.params.rumbleVolume?.value
-            ? this.params.rumbleVolume.rand
-                ? this.params.rumbleVolume.value + (Math.random() * this.params.rumbleVolume.dist)
-                : this.params.rumbleVolume.value
+        const rumbleVolume = params.rumbleVolume?.value
+            ? params.rumbleVolume.rand
+                ? params.rumbleVolume.value + (this.random() * params.rumbleVolume.dist)
+                : params.rumbleVolume.value
             : 0.2;
-        const rumbleDecay = this.params.rumbleDecay?.value
-            ? this.params.rumbleDecay.rand
-                ? this.params.rumbleDecay.value + (Math.random() * this.params.rumbleDecay.dist)
-                : this.params.rumbleDecay.value
+        const rumbleDecay = params.rumbleDecay?.value
+            ? params.rumbleDecay.rand
+                ? params.rumbleDecay.value + (this.random() * params.rumbleDecay.dist)
+                : params.rumbleDecay.value
             : 8;
-        const burstCount = this.params.burstCount?.value
-            ? this.params.burstCount.rand
-                ? this.params.burstCount.value + (Math.random() * this.params.burstCount.dist)
-                : this.params.burstCount.value
+        const burstCount = params.burstCount?.value
+            ? params.burstCount.rand
+                ? params.burstCount.value + (this.random() * params.burstCount.dist)
+                : params.burstCount.value
             : 1;
-        const duration = this.params.duration?.value
-            ? this.params.duration.rand
-                ? this.params.duration.value + (Math.random() * this.params.duration.dist)
-                : this.params.duration.value
+        const duration = params.duration?.value
+            ? params.duration.rand
+                ? params.duration.value + (this.random() * params.duration.dist)
+                : params.duration.value
             : 2;
-        const volume = this.params.volume?.value
-            ? this.params.volume.rand
-                ? this.params.volume.value + (Math.random() * this.params.volume.dist)
-                : this.params.volume.value
+        const volume = params.volume?.value
+            ? params.volume.rand
+                ? params.volume.value + (this.random() * params.volume.dist)
+                : params.volume.value
             : 0.5;
 
-        setTimeout(() => {
-            const now = this.ctx.currentTime;
+        this._scheduleAt(start, now => {
             const osc = this.ctx.createOscillator();
             const gain = this.ctx.createGain();
             osc.type = "sine";
@@ -232,21 +331,48 @@ export class ThunderGenerator<T extends BaseAudioContext = AudioContext> {
             gain.gain.setValueAtTime(rumbleVolume, now);
             gain.gain.exponentialRampToValueAtTime(0.001, now + rumbleDecay);
             osc.connect(gain).connect(this.eqBands[0]);
-            osc.start();
+            osc.start(now);
             osc.stop(now + rumbleDecay);
+            this.emit("thunderStart", { time: now, volume, pan: 0 });
 
             for (let i = 0; i < burstCount; i++) {
-                const burstDelay = 200 + Math.random() * 400;
-                setTimeout(() => this._playSingleBurst(
-                    duration * (0.8 + Math.random() * 0.4),
-                    volume * (0.7 + Math.random() * 0.6)
-                ), burstDelay * i);
+                const burstDelay = 200 + this.random() * 400;
+                this._scheduleAt(now + burstDelay * i / 1000, burstTime => this._playSingleBurst(
+                    params,
+                    duration * (0.8 + this.random() * 0.4),
+                    volume * (0.7 + this.random() * 0.6),
+                    i,
+                    burstTime
+                ));
             }
-        }, delay);
+        });
+    }
+
+    private _scheduleAt(time: number, callback: (when: number) => void) {
+        // The callback may already run inside schedule() when `time` is close
+        let done = false;
+        const cancel = this.scheduler.schedule(time, when => {
+            done = true;
+            this.pending.delete(cancel);
+            callback(when);
+        });
+        if (!done) this.pending.add(cancel);
+    }
+
+    /**
+     * Mixes thunder types by weight; types left out keep their weight. With
+     * every weight at 0 each thunder plays the params as they are.
+     */
+    setThunderTypes(weights: Partial<ThunderTypeWeights>) {
+        this.setParams({ thunderTypes: { ...this.params.thunderTypes, ...weights } });
     }
 
     setParams(newParams: Partial<ThunderParams>) {
-        this._applyParams(newParams);
+        this._applyParams(validateParams(thunderParamsSchema, newParams, this.validationMode));
+    }
+
+    setValidationMode(mode: ValidationMode) {
+        this.validationMode = mode;
     }
 
     private _applyParams(newParams: Partial<ThunderParams>) {
@@ -261,46 +387,45 @@ export class ThunderGenerator<T extends BaseAudioContext = AudioContext> {
         this.params = updated;
     }
 
-    private _playSingleBurst(duration: number, volume: number) {
-        const filterFreq = this.params.filterFreq?.value
-            ? this.params.filterFreq.rand
-                ? this.params.filterFreq.value + (Math.random() * this.params.filterFreq.dist)
-                : this.params.filterFreq.value
+    private _playSingleBurst(params: ThunderParams, duration: number, volume: number, index: number, now: number) {
+        const filterFreq = params.filterFreq?.value
+            ? params.filterFreq.rand
+                ? params.filterFreq.value + (this.random() * params.filterFreq.dist)
+                : params.filterFreq.value
             : 1500;
-        const highPassFreq = this.params.highPassFreq?.value
-            ? this.params.highPassFreq.rand
-                ? this.params.highPassFreq.value + (Math.random() * this.params.highPassFreq.dist)
-                : this.params.highPassFreq.value
+        const highPassFreq = params.highPassFreq?.value
+            ? params.highPassFreq.rand
+                ? params.highPassFreq.value + (this.random() * params.highPassFreq.dist)
+                : params.highPassFreq.value
             : 10;
-        const panRange = this.params.panRange?.value
-            ? this.params.panRange.rand
-                ? this.params.panRange.value + (Math.random() * this.params.panRange.dist)
-                : this.params.panRange.value
+        const panRange = params.panRange?.value
+            ? params.panRange.rand
+                ? params.panRange.value + (this.random() * params.panRange.dist)
+                : params.panRange.value
             : 1;
-        const reverbWetLevel = this.params.reverbWetLevel?.value
-            ? this.params.reverbWetLevel.rand
-                ? this.params.reverbWetLevel.value + (Math.random() * this.params.reverbWetLevel.dist)
-                : this.params.reverbWetLevel.value
+        const reverbWetLevel = params.reverbWetLevel?.value
+            ? params.reverbWetLevel.rand
+                ? params.reverbWetLevel.value + (this.random() * params.reverbWetLevel.dist)
+                : params.reverbWetLevel.value
             : 0.4;
-        const subLevel = this.params.subLevel?.value
-            ? this.params.subLevel.rand
-                ? this.params.subLevel.value + (Math.random() * this.params.subLevel.dist)
-                : this.params.subLevel.value
+        const subLevel = params.subLevel?.value
+            ? params.subLevel.rand
+                ? params.subLevel.value + (this.random() * params.subLevel.dist)
+                : params.subLevel.value
             : 0.1;
-        const crackleAmount = this.params.crackleAmount?.value
-            ? this.params.crackleAmount.rand
-                ? this.params.crackleAmount.value + (Math.random() * this.params.crackleAmount.dist)
-                : this.params.crackleAmount.value
+        const crackleAmount = params.crackleAmount?.value
+            ? params.crackleAmount.rand
+                ? params.crackleAmount.value + (this.random() * params.crackleAmount.dist)
+                : params.crackleAmount.value
             : 1;
 
-        const now = this.ctx.currentTime;
         const buffer = this.ctx.createBuffer(1, this.ctx.sampleRate * duration, this.ctx.sampleRate);
         const data = buffer.getChannelData(0);
 
         for (let i = 0; i < data.length; i++) {
             const buildUp = Math.min(1, i / (this.ctx.sampleRate * (duration * 0.25)));
             const decay = Math.exp(-i / (this.ctx.sampleRate * duration));
-            const noise = (Math.random() * 2 - 1) * Math.pow(Math.random(), 2);
+            const noise = (this.random() * 2 - 1) * Math.pow(this.random(), 2);
             data[i] = noise * decay * buildUp;
         }
 
@@ -323,9 +448,10 @@ export class ThunderGenerator<T extends BaseAudioContext = AudioContext> {
         gain.gain.exponentialRampToValueAtTime(0.001, now + duration * 3);
 
         const pan = this.ctx.createStereoPanner();
-        const basePan = (Math.random() * 2 - 1) * (panRange * 0.3);
+        const basePan = (this.random() * 2 - 1) * (panRange * 0.3);
         pan.pan.setValueAtTime(basePan, now);
         pan.pan.linearRampToValueAtTime(-basePan, now + duration);
+        this.emit("burst", { time: now, volume, pan: basePan, index });
 
         noise.connect(lowpass).connect(highpass).connect(gain).connect(pan).connect(this.eqBands[0]);
 
@@ -352,14 +478,14 @@ export class ThunderGenerator<T extends BaseAudioContext = AudioContext> {
         subGain.gain.exponentialRampToValueAtTime(0.001, now + duration * 2.5);
 
         rumbleOsc.connect(subGain).connect(this.eqBands[0]);
-        rumbleOsc.start();
+        rumbleOsc.start(now);
         rumbleOsc.stop(now + duration * 2.5);
 
         const tailBuffer = this.ctx.createBuffer(1, this.ctx.sampleRate * duration * 1.5, this.ctx.sampleRate);
         const tailData = tailBuffer.getChannelData(0);
         let lastOut = 0;
         for (let i = 0; i < tailData.length; i++) {
-            const white = Math.random() * 2 - 1;
+            const white = this.random() * 2 - 1;
             lastOut = (lastOut + 0.02 * white * crackleAmount) / (1.02 + crackleAmount * 0.05);
             tailData[i] = lastOut * 1.5 * Math.exp(-i / (this.ctx.sampleRate * duration));
         }
@@ -381,8 +507,58 @@ export class ThunderGenerator<T extends BaseAudioContext = AudioContext> {
 
         brown.connect(brownHighPass).connect(brownLowpass).connect(brownGain).connect(this.eqBands[0]);
 
-        noise.start();
-        brown.start();
+        noise.start(now);
+        brown.start(now);
+    }
+
+    private _playNWaveThunder(params: ThunderParams, now: number) {
+        const volume = this._randValue(params.volume, 0.5);
+        const highPassFreq = this._randValue(params.highPassFreq, 10);
+        const panRange = this._randValue(params.panRange, 1);
+        const reverbWetLevel = this._randValue(params.reverbWetLevel, 0.4);
+
+        const source = this.ctx.createBufferSource();
+        source.buffer = createNWaveThunderBuffer(this.ctx, {
+            distance: this._randValue(params.distance, 2000),
+            length: this._randValue(params.channelLength, 3000),
+            tortuosity: this._randValue(params.tortuosity, 0),
+            orientation: this._randValue(params.orientation, 0),
+        }, panRange, this.random, {
+            strokes: this._randValue(params.burstCount, 1),
+            filterFreq: this._randValue(params.filterFreq, 1500),
+            decay: this._randValue(params.duration, 2),
+        });
+
+        const highpass = this.ctx.createBiquadFilter();
+        highpass.type = 'highpass';
+        highpass.frequency.value = highPassFreq;
+
+        const gain = this.ctx.createGain();
+        gain.gain.value = volume;
+
+        source.connect(highpass).connect(gain).connect(this.eqBands[0]);
+
+        if (this.reverbBuffer) {
+            const convolver = this.ctx.createConvolver();
+            convolver.buffer = this.reverbBuffer;
+            const preVerbFilter = this.ctx.createBiquadFilter();
+            preVerbFilter.type = "highpass";
+            preVerbFilter.frequency.value = 80;
+
+            const wetGain = this.ctx.createGain();
+            wetGain.gain.value = reverbWetLevel;
+
+            gain.connect(preVerbFilter).connect(convolver).connect(wetGain).connect(this.eqBands[0]);
+        }
+
+        this.emit("thunderStart", { time: now, volume, pan: 0 });
+        source.start(now);
+    }
+
+    // Same fallback rules as the inline lookups above: a zero value falls back to the default
+    private _randValue(param: RandParam | undefined, fallback: number): number {
+        if (!param?.value) return fallback;
+        return param.rand ? param.value + this.random() * param.dist : param.value;
     }
 
     public connect(node: AudioNode) {
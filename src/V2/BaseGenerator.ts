@@ -1,22 +1,41 @@
 import { IGenerator } from "./IGenerator";
+import { Random } from "../types/Random";
+import { ParamSchema, ValidationMode } from "../types/ParamSchema";
+import { validateParams } from "../functions/validateParams";
+import { deepMerge } from "../functions/paramPath";
+import { EventEmitter } from "../events/EventEmitter";
+import { OscParam } from "./types/RainParams";
+import { RandParam } from "./types/ThunderParams";
+import { DeepPartial } from "./types/ParamPath";
 
-export abstract class BaseGenerator<TParams extends Record<string, any>> implements IGenerator {
-    protected ctx: AudioContext;
+export abstract class BaseGenerator<TParams extends Record<string, any>, TEvents extends object = {}>
+    extends EventEmitter<TEvents>
+    implements IGenerator {
+    protected ctx: BaseAudioContext;
     protected destination: AudioNode;
     protected gainNode: GainNode;
     protected eqNode: BiquadFilterNode[] = []; // 10-band EQ (optional)
     protected params: TParams;
+    protected random: Random;
+    protected schema?: ParamSchema<TParams>;
+    protected validationMode: ValidationMode = "clamp";
+    /** Seconds advanced by `tick()`; the phase of the `osc` params. */
+    protected time = 0;
+    private paramListeners = new Set<(path: string) => void>();
 
     constructor(
-        ctx: AudioContext,
+        ctx: BaseAudioContext,
         destination: AudioNode,
         initialParams: TParams,
         withEQ: boolean = true,
-        eqBands: number[] = [] // array of frequencies
+        eqBands: number[] = [], // array of frequencies
+        random: Random = Math.random
     ) {
+        super();
         this.ctx = ctx;
         this.destination = destination;
         this.params = initialParams;
+        this.random = random;
 
         // Gain
         this.gainNode = ctx.createGain();
@@ -46,16 +65,67 @@ export abstract class BaseGenerator<TParams extends Record<string, any>> impleme
         }
     }
 
-    updateParams(newParams: Partial<TParams>): void {
-        Object.entries(newParams).forEach(([key, value]) => {
+    /**
+     * Lays `newParams` over the current params. Nested groups are merged, so a
+     * partial group keeps its sibling params; arrays and named records such as
+     * the rain's layers are replaced whole.
+     */
+    updateParams(newParams: DeepPartial<TParams>): void {
+        const merged = Object.fromEntries(Object.entries(newParams).map(([key, value]) => [
+            key,
+            deepMerge(this.params[key as keyof TParams], value, this.schema?.[key as keyof TParams]),
+        ])) as Partial<TParams>;
+        Object.entries(this.validate(merged)).forEach(([key, value]) => {
             if (key in this.params) {
                 this.params[key as keyof TParams] = value as TParams[keyof TParams];
+                this.notifyParamChange(key);
             }
         });
     }
 
     setParam<K extends keyof TParams>(name: K, value: TParams[K]): void {
-        this.params[name] = value;
+        this.params[name] = this.validate({ [name]: value } as unknown as Partial<TParams>)[name] as TParams[K];
+        this.notifyParamChange(name as string);
+    }
+
+    /**
+     * Registers a listener called with the dotted path of every param change,
+     * including values the generator modulates itself. Returns an unsubscribe function.
+     */
+    onParamChange(listener: (path: string) => void): () => void {
+        this.paramListeners.add(listener);
+        return () => this.paramListeners.delete(listener);
+    }
+
+    protected notifyParamChange(path: string) {
+        this.paramListeners.forEach(listener => listener(path));
+    }
+
+    setValidationMode(mode: ValidationMode): void {
+        this.validationMode = mode;
+    }
+
+    protected validate(params: Partial<TParams>): Partial<TParams> {
+        return this.schema ? validateParams(this.schema, params, this.validationMode) : params;
+    }
+
+    /** The value of an `osc` param at the current `time`. */
+    protected oscValue(param: OscParam): number {
+        return param.osc ? param.value + Math.sin(this.time * param.freq * 2 * Math.PI) * param.amp : param.value;
+    }
+
+    /** `value` ± `dist` when `rand` is set, else `value`. */
+    protected rand(param: RandParam): number {
+        const { value, rand, dist } = param;
+        return rand ? this.randomBetween(value - dist, value + dist) : value;
+    }
+
+    protected randomBetween(min: number, max: number): number {
+        return min + this.random() * (max - min);
+    }
+
+    protected clamp01(value: number): number {
+        return Math.max(0, Math.min(1, value));
     }
 
     getParams(): TParams {
@@ -66,5 +136,6 @@ export abstract class BaseGenerator<TParams extends Record<string, any>> impleme
     abstract stop(): void;
     abstract destroy(): void;
 
+    /** Advances the generator by `dt` seconds. */
     tick?(dt: number): void;
 }
@@ -0,0 +1,286 @@
+import { BaseGenerator } from "./BaseGenerator";
+import { Random } from "../types/Random";
+import { createImpulseResponse } from "../functions/createImpulseResponse";
+import { createNoiseBuffer } from "../functions/createNoiseBuffer";
+import { scheduleBubble } from "../functions/scheduleBubble";
+import { eqGainsSpec } from "../functions/validateParams";
+import { ParamSchema } from "../types/ParamSchema";
+import { DripParams, DripSurface } from "./types/DripParams";
+import { DeepPartial } from "./types/ParamPath";
+
+export const _defaultDripParamsV2: DripParams = {
+    const: {
+        main: {
+            volume: 0.5,
+            eqGains: new Array(6).fill(0),
+        },
+        sources: {
+            count: 5,
+            drift: 0.15,
+            panRange: 0.8,
+        },
+        surfaces: {
+            pool: 1,
+            metal: 0.5,
+            wood: 0.5,
+        },
+        rain: {
+            fullRate: 20,
+            drainTime: 40,
+        },
+        reverb: {
+            wetLevel: 0.25,
+        },
+    },
+    rand: {
+        sources: {
+            pitch: { value: 1200, rand: true, dist: 700 },
+            interval: { value: 1.5, rand: true, dist: 1 },
+        },
+    },
+};
+
+const defaults = _defaultDripParamsV2;
+
+export const dripParamsSchemaV2: ParamSchema<DripParams> = {
+    const: {
+        main: {
+            volume: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.main.volume, description: "Output volume of the drips" },
+            eqGains: eqGainsSpec(6),
+        },
+        sources: {
+            count: { kind: "number", min: 0, max: 32, unit: "", integer: true, default: defaults.const.sources.count, description: "Number of drip sources" },
+            drift: { kind: "number", min: 0, max: 1, unit: "", default: defaults.const.sources.drift, description: "How irregular the rhythm of a source is" },
+            panRange: { kind: "number", min: 0, max: 1, unit: "pan", default: defaults.const.sources.panRange, description: "Stereo spread of the sources" },
+        },
+        surfaces: {
+            pool: { kind: "number", min: 0, max: 1, unit: "", default: defaults.const.surfaces.pool, description: "Weight of sources dripping into a puddle" },
+            metal: { kind: "number", min: 0, max: 1, unit: "", default: defaults.const.surfaces.metal, description: "Weight of sources dripping onto metal" },
+            wood: { kind: "number", min: 0, max: 1, unit: "", default: defaults.const.surfaces.wood, description: "Weight of sources dripping onto wood" },
+        },
+        rain: {
+            fullRate: { kind: "number", min: 0.1, max: 500, unit: "drops/s", default: defaults.const.rain.fullRate, description: "Rain drop rate at which the drips are fastest" },
+            drainTime: { kind: "number", min: 0.1, max: 600, unit: "s", default: defaults.const.rain.drainTime, description: "How long the drips take to die away after the rain" },
+        },
+        reverb: {
+            wetLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.reverb.wetLevel, description: "Level sent to the reverb" },
+        },
+    },
+    rand: {
+        sources: {
+            pitch: { kind: "rand", min: 100, max: 8000, unit: "Hz", default: defaults.rand.sources.pitch, description: "Pitch of a drip source" },
+            interval: { kind: "rand", min: 0.05, max: 60, unit: "s", default: defaults.rand.sources.interval, description: "Time between two drips of a source in full rain" },
+        },
+    },
+};
+
+interface DripSource {
+    pitch: number;
+    basePeriod: number;
+    period: number;
+    pan: number;
+    surface: DripSurface;
+    nextIn: number;
+}
+
+// Time constant in seconds of the gutters filling up once it rains
+const FILL_TIME = 5;
+// Below this the gutters are dry and the drips stop
+const DRY = 0.02;
+// Inharmonic partials of a small struck metal plate
+const METAL_PARTIALS = [1, 2.76, 5.4, 8.93];
+
+export class DripGenerator extends BaseGenerator<DripParams> {
+    private running = false;
+    private sources: DripSource[] = [];
+    private rainRate: number | null = null;
+    private wetness = 1;
+
+    private noiseBuffer: AudioBuffer;
+    private dryGain = this.ctx.createGain();
+    private wetGain = this.ctx.createGain();
+    private reverbNode = this.ctx.createConvolver();
+
+    constructor(ctx: BaseAudioContext, destination: AudioNode, initialParams: DripParams, random: Random = Math.random) {
+        super(ctx, destination, initialParams, true, [100, 300, 600, 1200, 2400, 4800], random);
+        this.schema = dripParamsSchemaV2;
+
+        this.noiseBuffer = createNoiseBuffer(this.ctx, "white", this.random, 1);
+
+        const input = this.eqNode[0] ?? this.gainNode;
+        this.reverbNode.buffer = createImpulseResponse(this.ctx, 1.5, 3, this.random);
+        this.dryGain.connect(input);
+        this.wetGain.connect(this.reverbNode);
+        this.reverbNode.connect(input);
+
+        this.buildSources();
+        this.applyParams();
+    }
+
+    start() {
+        this.running = true;
+    }
+
+    stop() {
+        this.running = false;
+    }
+
+    destroy() {
+        this.stop();
+        this.dryGain.disconnect();
+        this.wetGain.disconnect();
+        this.reverbNode.disconnect();
+    }
+
+    updateParams(newParams: DeepPartial<DripParams>): void {
+        const before = JSON.stringify(this.sourceParams());
+        super.updateParams(newParams);
+        if (JSON.stringify(this.sourceParams()) !== before) this.buildSources();
+        this.applyParams();
+    }
+
+    /**
+     * Lets the drips follow the rain: they speed up with `dropsPerSecond` and
+     * slowly die away after it drops to 0. `null` (the default) drips as in
+     * full rain.
+     */
+    setRainRate(dropsPerSecond: number | null) {
+        this.rainRate = dropsPerSecond;
+    }
+
+    tick(dt: number) {
+        if (!this.running) return;
+        const now = this.ctx.currentTime;
+
+        const { fullRate, drainTime } = this.params.const.rain;
+        const intensity = this.rainRate === null ? 1 : Math.min(1, this.rainRate / fullRate);
+        const timeConstant = intensity > this.wetness ? FILL_TIME : drainTime;
+        this.wetness += (intensity - this.wetness) * (1 - Math.exp(-dt / timeConstant));
+        if (this.wetness < DRY) return;
+
+        this.sources.forEach(source => {
+            source.nextIn -= dt;
+            while (source.nextIn <= 0) {
+                this.scheduleDrip(source, now + dt + source.nextIn);
+                source.nextIn += this.nextInterval(source);
+            }
+        });
+    }
+
+    private applyParams() {
+        const { main, reverb } = this.params.const;
+        this.gainNode.gain.value = main.volume;
+        this.eqNode.forEach((band, i) => {
+            band.gain.value = main.eqGains[i] ?? 0;
+        });
+        this.wetGain.gain.value = reverb.wetLevel;
+    }
+
+    // Changing any of these draws a new set of sources
+    private sourceParams() {
+        const { sources, surfaces } = this.params.const;
+        return { count: sources.count, panRange: sources.panRange, surfaces, rand: this.params.rand.sources };
+    }
+
+    private buildSources() {
+        const { count, panRange } = this.params.const.sources;
+        this.sources = Array.from({ length: count }, () => {
+            const period = Math.max(0.05, this.rand(this.params.rand.sources.interval));
+            return {
+                pitch: Math.max(100, this.rand(this.params.rand.sources.pitch)),
+                basePeriod: period,
+                period,
+                pan: this.randomBetween(-panRange, panRange),
+                surface: this.pickSurface(),
+                nextIn: period * this.random(),
+            };
+        });
+    }
+
+    private pickSurface(): DripSurface {
+        const { surfaces } = this.params.const;
+        const total = surfaces.pool + surfaces.metal + surfaces.wood;
+        let pick = this.random() * total;
+        if ((pick -= surfaces.pool) < 0) return "pool";
+        if ((pick -= surfaces.metal) < 0) return "metal";
+        return total > 0 ? "wood" : "pool";
+    }
+
+    // Near-periodic: each drip strays a little from the source's period, which wanders slowly
+    private nextInterval(source: DripSource): number {
+        const { drift } = this.params.const.sources;
+        source.period *= 1 + drift * 0.1 * (this.random() * 2 - 1);
+        source.period = Math.min(source.basePeriod * 2, Math.max(source.basePeriod / 2, source.period));
+
+        const jitter = 1 + drift * (this.random() * 2 - 1);
+        return (source.period * jitter) / Math.max(this.wetness, DRY);
+    }
+
+    private scheduleDrip(source: DripSource, time: number) {
+        const level = 0.3 + 0.7 * this.wetness;
+        const pitch = source.pitch * (1 + (this.random() * 2 - 1) * 0.02);
+
+        const pan = this.ctx.createStereoPanner();
+        pan.pan.value = source.pan;
+        pan.connect(this.dryGain);
+        pan.connect(this.wetGain);
+
+        switch (source.surface) {
+            case "pool":
+                this.scheduleClick(pan, time, pitch * 3, 0.004, level * 0.2);
+                scheduleBubble(this.ctx, pan, time + 0.002, {
+                    freq: pitch,
+                    decay: Math.min(0.05, 10 / pitch),
+                    rise: 0.4,
+                    amp: level * 0.5,
+                });
+                break;
+            case "metal":
+                METAL_PARTIALS.forEach((ratio, i) => {
+                    const freq = pitch * 2 * ratio;
+                    if (freq >= this.ctx.sampleRate / 2) return;
+                    this.scheduleRing(pan, time, freq, 0.25 / (i + 1), (level * 0.15) / (i + 1));
+                });
+                this.scheduleClick(pan, time, pitch * 4, 0.003, level * 0.15);
+                break;
+            case "wood":
+                this.scheduleClick(pan, time, pitch * 0.5, 0.03, level * 0.5);
+                this.scheduleRing(pan, time, pitch * 0.25, 0.02, level * 0.2);
+                break;
+        }
+    }
+
+    // A short bandpassed noise tick
+    private scheduleClick(destination: AudioNode, time: number, freq: number, decay: number, level: number) {
+        const noise = this.ctx.createBufferSource();
+        noise.buffer = this.noiseBuffer;
+
+        const filter = this.ctx.createBiquadFilter();
+        filter.type = "bandpass";
+        filter.frequency.value = Math.min(freq, this.ctx.sampleRate / 2 - 100);
+        filter.Q.value = 4;
+
+        const env = this.ctx.createGain();
+        env.gain.setValueAtTime(level, time);
+        env.gain.exponentialRampToValueAtTime(0.001, time + decay);
+
+        noise.connect(filter).connect(env).connect(destination);
+        noise.start(time, this.random() * (this.noiseBuffer.duration - decay));
+        noise.stop(time + decay + 0.02);
+    }
+
+    // A decaying sine partial
+    private scheduleRing(destination: AudioNode, time: number, freq: number, decay: number, level: number) {
+        const osc = this.ctx.createOscillator();
+        osc.frequency.value = freq;
+
+        const env = this.ctx.createGain();
+        env.gain.setValueAtTime(0, time);
+        env.gain.linearRampToValueAtTime(level, time + 0.001);
+        env.gain.setTargetAtTime(0, time + 0.001, decay / 3);
+
+        osc.connect(env).connect(destination);
+        osc.start(time);
+        osc.stop(time + decay * 2 + 0.01);
+    }
+}
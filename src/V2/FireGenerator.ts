@@ -0,0 +1,278 @@
+import { BaseGenerator } from "./BaseGenerator";
+import { Random } from "../types/Random";
+import { createImpulseResponse } from "../functions/createImpulseResponse";
+import { createNoiseBuffer } from "../functions/createNoiseBuffer";
+import { createCrackleBuffer } from "../functions/createCrackleBuffer";
+import { eqGainsSpec } from "../functions/validateParams";
+import { ParamSchema } from "../types/ParamSchema";
+import { FireParams } from "./types/FireParams";
+import { DeepPartial } from "./types/ParamPath";
+
+export const _defaultFireParamsV2: FireParams = {
+    const: {
+        main: {
+            volume: 0.5,
+            eqGains: new Array(6).fill(0),
+        },
+        roar: {
+            level: 0.4,
+            filterFreq: 500,
+        },
+        reverb: {
+            wetLevel: 0.15,
+        },
+    },
+    rand: {
+        fire: {
+            intensity: { value: 0.6, rand: true, dist: 0.2 },
+        },
+        pops: {
+            density: { value: 8, rand: true, dist: 4 },
+            size: { value: 0.4, rand: true, dist: 0.3 },
+        },
+        snaps: {
+            interval: { value: 12, rand: true, dist: 8 },
+            size: { value: 0.7, rand: true, dist: 0.3 },
+        },
+    },
+};
+
+const defaults = _defaultFireParamsV2;
+
+export const fireParamsSchemaV2: ParamSchema<FireParams> = {
+    const: {
+        main: {
+            volume: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.main.volume, description: "Output volume of the fire" },
+            eqGains: eqGainsSpec(6),
+        },
+        roar: {
+            level: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.roar.level, description: "Level of the low roar at full intensity" },
+            filterFreq: { kind: "number", min: 50, max: 5000, unit: "Hz", default: defaults.const.roar.filterFreq, description: "Lowpass cutoff of the roar" },
+        },
+        reverb: {
+            wetLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.reverb.wetLevel, description: "Level sent to the room reverb" },
+        },
+    },
+    rand: {
+        fire: {
+            intensity: { kind: "rand", min: 0, max: 1, unit: "", default: defaults.rand.fire.intensity, description: "How fiercely the fire burns" },
+        },
+        pops: {
+            density: { kind: "rand", min: 0, max: 100, unit: "pops/s", default: defaults.rand.pops.density, description: "Crackle pops per second at full intensity" },
+            size: { kind: "rand", min: 0, max: 1, unit: "", default: defaults.rand.pops.size, description: "Size of a crackle pop" },
+        },
+        snaps: {
+            interval: { kind: "rand", min: 0.5, max: 120, unit: "s", default: defaults.rand.snaps.interval, description: "Time between two hiss/snap events" },
+            size: { kind: "rand", min: 0, max: 1, unit: "", default: defaults.rand.snaps.size, description: "Size of a hiss/snap event" },
+        },
+    },
+};
+
+// How often the intensity and the roar's flicker move, in seconds
+const INTENSITY_PERIOD = 3;
+const FLICKER_PERIOD = 0.15;
+
+export class FireGenerator extends BaseGenerator<FireParams> {
+    private running = false;
+    private intensity = 0;
+    private intensityTimer = 0;
+    private flickerTimer = 0;
+    private nextPopIn = 0;
+    private nextSnapIn = 0;
+
+    private roarSource: AudioBufferSourceNode | null = null;
+    private roarFilter = this.ctx.createBiquadFilter();
+    private roarGain = this.ctx.createGain();
+    private noiseBuffer: AudioBuffer;
+    private dryGain = this.ctx.createGain();
+    private wetGain = this.ctx.createGain();
+    private reverbNode = this.ctx.createConvolver();
+
+    constructor(ctx: BaseAudioContext, destination: AudioNode, initialParams: FireParams, random: Random = Math.random) {
+        super(ctx, destination, initialParams, true, [100, 300, 600, 1200, 2400, 4800], random);
+        this.schema = fireParamsSchemaV2;
+
+        this.noiseBuffer = createNoiseBuffer(this.ctx, "pink", this.random, 4);
+
+        // A small room rather than a hall
+        const input = this.eqNode[0] ?? this.gainNode;
+        this.reverbNode.buffer = createImpulseResponse(this.ctx, 1.2, 3, this.random);
+        this.dryGain.connect(input);
+        this.wetGain.connect(this.reverbNode);
+        this.reverbNode.connect(input);
+
+        this.roarFilter.type = "lowpass";
+        this.roarGain.gain.value = 0;
+        this.roarFilter.connect(this.roarGain).connect(this.dryGain);
+        this.roarGain.connect(this.wetGain);
+        this.applyParams();
+    }
+
+    start() {
+        if (this.running) return;
+        this.running = true;
+
+        this.roarSource = this.ctx.createBufferSource();
+        this.roarSource.buffer = this.noiseBuffer;
+        this.roarSource.loop = true;
+        this.roarSource.connect(this.roarFilter);
+        this.roarSource.start();
+
+        this.intensity = this.drawIntensity();
+        this.intensityTimer = 0;
+        this.flickerTimer = FLICKER_PERIOD;
+        this.nextPopIn = this.popInterval();
+        this.nextSnapIn = this.snapInterval() * this.random();
+    }
+
+    stop() {
+        this.running = false;
+        if (this.roarSource) {
+            this.roarSource.stop();
+            this.roarSource.disconnect();
+            this.roarSource = null;
+        }
+        this.roarGain.gain.cancelScheduledValues(this.ctx.currentTime);
+        this.roarGain.gain.value = 0;
+    }
+
+    destroy() {
+        this.stop();
+        this.roarFilter.disconnect();
+        this.roarGain.disconnect();
+        this.dryGain.disconnect();
+        this.wetGain.disconnect();
+        this.reverbNode.disconnect();
+    }
+
+    updateParams(newParams: DeepPartial<FireParams>): void {
+        super.updateParams(newParams);
+        this.applyParams();
+    }
+
+    tick(dt: number) {
+        if (!this.running) return;
+        const now = this.ctx.currentTime;
+
+        this.intensityTimer += dt;
+        if (this.intensityTimer >= INTENSITY_PERIOD) {
+            this.intensityTimer -= INTENSITY_PERIOD;
+            this.intensity = this.drawIntensity();
+        }
+
+        this.flickerTimer += dt;
+        if (this.flickerTimer >= FLICKER_PERIOD) {
+            this.flickerTimer -= FLICKER_PERIOD;
+            this.flickerRoar(now);
+        }
+
+        // Pops are spread over the tick instead of landing on its start
+        this.nextPopIn -= dt;
+        while (this.nextPopIn <= 0) {
+            this.schedulePop(now + dt + this.nextPopIn);
+            this.nextPopIn += this.popInterval();
+        }
+
+        this.nextSnapIn -= dt;
+        if (this.nextSnapIn <= 0) {
+            this.scheduleSnap(now);
+            this.nextSnapIn = this.snapInterval();
+        }
+    }
+
+    private applyParams() {
+        const { main, roar, reverb } = this.params.const;
+        this.gainNode.gain.value = main.volume;
+        this.eqNode.forEach((band, i) => {
+            band.gain.value = main.eqGains[i] ?? 0;
+        });
+        this.roarFilter.frequency.value = roar.filterFreq;
+        this.wetGain.gain.value = reverb.wetLevel;
+    }
+
+    // The roar breathes around the current intensity
+    private flickerRoar(now: number) {
+        const flicker = 0.75 + this.random() * 0.5;
+        const level = this.params.const.roar.level * this.intensity * flicker;
+        this.roarGain.gain.setTargetAtTime(level, now, FLICKER_PERIOD / 2);
+        this.roarFilter.frequency.setTargetAtTime(
+            this.params.const.roar.filterFreq * (0.6 + 0.8 * this.intensity) * flicker,
+            now,
+            FLICKER_PERIOD / 2
+        );
+    }
+
+    private schedulePop(time: number, size: number = this.clamp01(this.rand(this.params.rand.pops.size))) {
+        const duration = 0.005 + size * 0.03;
+        const source = this.ctx.createBufferSource();
+        source.buffer = createCrackleBuffer(this.ctx, duration, this.random, 0.2 + size * 0.3);
+
+        // Small pops are bright ticks, big ones lower cracks
+        const band = this.ctx.createBiquadFilter();
+        band.type = "bandpass";
+        band.frequency.value = this.randomBetween(1500, 5000) * (1 - size * 0.6);
+        band.Q.value = 0.8;
+
+        const gain = this.ctx.createGain();
+        gain.gain.setValueAtTime(0.1 + size * 0.5, time);
+        gain.gain.exponentialRampToValueAtTime(0.001, time + duration);
+
+        const panner = this.ctx.createStereoPanner();
+        panner.pan.value = this.randomBetween(-0.7, 0.7);
+
+        source.connect(band).connect(gain).connect(panner);
+        panner.connect(this.dryGain);
+        panner.connect(this.wetGain);
+        source.start(time);
+    }
+
+    /**
+     * A pocket of gas escaping: a hiss that swells and, for the bigger ones,
+     * ends in a loud snap with a few embers popping after it.
+     */
+    private scheduleSnap(time: number) {
+        const size = this.clamp01(this.rand(this.params.rand.snaps.size));
+        const hissLength = 0.3 + size * 1.2;
+
+        const hiss = this.ctx.createBufferSource();
+        hiss.buffer = this.noiseBuffer;
+        const highpass = this.ctx.createBiquadFilter();
+        highpass.type = "highpass";
+        highpass.frequency.setValueAtTime(2000, time);
+        highpass.frequency.exponentialRampToValueAtTime(6000, time + hissLength);
+        const hissGain = this.ctx.createGain();
+        hissGain.gain.setValueAtTime(0.0001, time);
+        hissGain.gain.exponentialRampToValueAtTime(Math.max(0.0001, 0.15 * size), time + hissLength * 0.8);
+        hissGain.gain.exponentialRampToValueAtTime(0.0001, time + hissLength);
+
+        const panner = this.ctx.createStereoPanner();
+        panner.pan.value = this.randomBetween(-0.5, 0.5);
+        hiss.connect(highpass).connect(hissGain).connect(panner);
+        panner.connect(this.dryGain);
+        panner.connect(this.wetGain);
+        hiss.start(time, this.random() * this.noiseBuffer.duration);
+        hiss.stop(time + hissLength + 0.05);
+
+        if (size < 0.4) return;
+        const snapTime = time + hissLength;
+        this.schedulePop(snapTime, Math.min(1, size * 1.5));
+        const embers = Math.floor(size * 5);
+        for (let i = 0; i < embers; i++) {
+            this.schedulePop(snapTime + 0.05 + this.random() * 0.4, size * 0.3);
+        }
+    }
+
+    private drawIntensity(): number {
+        return this.clamp01(this.rand(this.params.rand.fire.intensity));
+    }
+
+    // Exponential gaps give the irregular rhythm of a real fire
+    private popInterval(): number {
+        const rate = Math.max(0, this.rand(this.params.rand.pops.density)) * this.intensity;
+        return rate > 0 ? -Math.log(1 - this.random()) / rate : INTENSITY_PERIOD;
+    }
+
+    private snapInterval(): number {
+        return Math.max(0.5, this.rand(this.params.rand.snaps.interval));
+    }
+}
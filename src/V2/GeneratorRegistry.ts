@@ -0,0 +1,132 @@
+import { IGenerator } from "./IGenerator";
+import { Random } from "../types/Random";
+import { ParamSchema } from "../types/ParamSchema";
+import { RainGenerator, _defaultRainParamsV2, rainParamsSchemaV2 } from "./RainGenerator";
+import { ThunderGenerator, _defaultThunderParamsV2, thunderParamsSchemaV2 } from "./ThunderGenerator";
+import { WindGenerator, _defaultWindParamsV2, windParamsSchemaV2 } from "./WindGenerator";
+import { OceanGenerator, _defaultOceanParamsV2, oceanParamsSchemaV2 } from "./OceanGenerator";
+import { FireGenerator, _defaultFireParamsV2, fireParamsSchemaV2 } from "./FireGenerator";
+import { StreamGenerator, _defaultStreamParamsV2, streamParamsSchemaV2 } from "./StreamGenerator";
+import { DripGenerator, _defaultDripParamsV2, dripParamsSchemaV2 } from "./DripGenerator";
+import { GranularGenerator, _defaultGranularParamsV2, granularParamsSchemaV2 } from "./GranularGenerator";
+import { HailGenerator, _defaultHailParamsV2, hailParamsSchemaV2 } from "./HailGenerator";
+import { TrafficGenerator, _defaultTrafficParamsV2, trafficParamsSchemaV2 } from "./TrafficGenerator";
+import { RainParams } from "./types/RainParams";
+import { ThunderParams } from "./types/ThunderParams";
+import { WindParams } from "./types/WindParams";
+import { OceanParams } from "./types/OceanParams";
+import { FireParams } from "./types/FireParams";
+import { StreamParams } from "./types/StreamParams";
+import { DripParams } from "./types/DripParams";
+import { GranularParams } from "./types/GranularParams";
+import { HailParams } from "./types/HailParams";
+import { TrafficParams } from "./types/TrafficParams";
+
+/**
+ * Params of every built-in generator type. Custom types can be added by
+ * augmenting this interface; unknown types take any params.
+ */
+export interface GeneratorParamsMap {
+    rain: RainParams;
+    thunder: ThunderParams;
+    wind: WindParams;
+    ocean: OceanParams;
+    fire: FireParams;
+    stream: StreamParams;
+    drip: DripParams;
+    granular: GranularParams;
+    hail: HailParams;
+    traffic: TrafficParams;
+}
+
+export type GeneratorParamsOf<K extends string> = K extends keyof GeneratorParamsMap ? GeneratorParamsMap[K] : Record<string, any>;
+
+export interface GeneratorDefinition<P extends Record<string, any> = any> {
+    /** Builds the generator and connects it to `destination`. */
+    create(ctx: BaseAudioContext, destination: AudioNode, params: P, random: Random): IGenerator;
+    defaults: P;
+    schema?: ParamSchema<P>;
+}
+
+/**
+ * Generator types by name, so a controller can build them from scene params.
+ */
+export class GeneratorRegistry {
+    private definitions = new Map<string, GeneratorDefinition>();
+
+    register<P extends Record<string, any>>(type: string, definition: GeneratorDefinition<P>): this {
+        this.definitions.set(type, definition as GeneratorDefinition);
+        return this;
+    }
+
+    unregister(type: string) {
+        this.definitions.delete(type);
+    }
+
+    has(type: string): boolean {
+        return this.definitions.has(type);
+    }
+
+    get(type: string): GeneratorDefinition {
+        const definition = this.definitions.get(type);
+        if (!definition) throw new Error(`Unknown generator type "${type}"`);
+        return definition;
+    }
+
+    types(): string[] {
+        return [...this.definitions.keys()];
+    }
+}
+
+/** The registry controllers use, with the built-in generators. */
+export const generatorRegistry = new GeneratorRegistry()
+    .register("rain", {
+        create: (ctx, destination, params, random) => new RainGenerator(ctx, destination, params, random),
+        defaults: _defaultRainParamsV2,
+        schema: rainParamsSchemaV2,
+    })
+    .register("thunder", {
+        create: (ctx, destination, params, random) => new ThunderGenerator(ctx, destination, params, random),
+        defaults: _defaultThunderParamsV2,
+        schema: thunderParamsSchemaV2,
+    })
+    .register("wind", {
+        create: (ctx, destination, params, random) => new WindGenerator(ctx, destination, params, random),
+        defaults: _defaultWindParamsV2,
+        schema: windParamsSchemaV2,
+    })
+    .register("ocean", {
+        create: (ctx, destination, params, random) => new OceanGenerator(ctx, destination, params, random),
+        defaults: _defaultOceanParamsV2,
+        schema: oceanParamsSchemaV2,
+    })
+    .register("fire", {
+        create: (ctx, destination, params, random) => new FireGenerator(ctx, destination, params, random),
+        defaults: _defaultFireParamsV2,
+        schema: fireParamsSchemaV2,
+    })
+    .register("stream", {
+        create: (ctx, destination, params, random) => new StreamGenerator(ctx, destination, params, random),
+        defaults: _defaultStreamParamsV2,
+        schema: streamParamsSchemaV2,
+    })
+    .register("traffic", {
+        create: (ctx, destination, params, random) => new TrafficGenerator(ctx, destination, params, random),
+        defaults: _defaultTrafficParamsV2,
+        schema: trafficParamsSchemaV2,
+    })
+    .register("hail", {
+        create: (ctx, destination, params, random) => new HailGenerator(ctx, destination, params, random),
+        defaults: _defaultHailParamsV2,
+        schema: hailParamsSchemaV2,
+    })
+    .register("drip", {
+        create: (ctx, destination, params, random) => new DripGenerator(ctx, destination, params, random),
+        defaults: _defaultDripParamsV2,
+        schema: dripParamsSchemaV2,
+    })
+    .register("granular", {
+        create: (ctx, destination, params, random) => new GranularGenerator(ctx, destination, params, random),
+        defaults: _defaultGranularParamsV2,
+        schema: granularParamsSchemaV2,
+    });
@@ -0,0 +1,190 @@
+import { BaseGenerator } from "./BaseGenerator";
+import { Random } from "../types/Random";
+import { eqGainsSpec } from "../functions/validateParams";
+import { ParamSchema } from "../types/ParamSchema";
+import { GranularParams, GrainEnvelope } from "./types/GranularParams";
+import { DeepPartial } from "./types/ParamPath";
+
+export const _defaultGranularParamsV2: GranularParams = {
+    const: {
+        main: {
+            volume: 0.5,
+            eqGains: new Array(6).fill(0),
+        },
+        envelope: {
+            shape: "hann",
+        },
+    },
+    osc: {
+        grains: {
+            position: { value: 0.5, osc: false, amp: 0.3, freq: 0.01 },
+            length: { value: 0.2, osc: false, amp: 0.05, freq: 0.1 },
+            pitch: { value: 0, osc: false, amp: 1, freq: 0.05 },
+            density: { value: 20, osc: false, amp: 5, freq: 0.1 },
+            panSpread: { value: 0.6, osc: false, amp: 0.2, freq: 0.05 },
+        },
+    },
+    rand: {
+        grains: {
+            position: { value: 0, rand: true, dist: 0.5 },
+            length: { value: 0, rand: true, dist: 0.05 },
+            pitch: { value: 0, rand: true, dist: 0.3 },
+        },
+    },
+};
+
+const defaults = _defaultGranularParamsV2;
+
+export const granularParamsSchemaV2: ParamSchema<GranularParams> = {
+    const: {
+        main: {
+            volume: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.main.volume, description: "Output volume of the grains" },
+            eqGains: eqGainsSpec(6),
+        },
+        envelope: {
+            shape: { kind: "enum", values: ["hann", "triangle", "expodec"], default: defaults.const.envelope.shape, description: "Amplitude envelope of a grain" },
+        },
+    },
+    osc: {
+        grains: {
+            position: { kind: "osc", min: 0, max: 1, unit: "", default: defaults.osc.grains.position, description: "Where in the recording grains are taken from" },
+            length: { kind: "osc", min: 0.005, max: 2, unit: "s", default: defaults.osc.grains.length, description: "Length of a grain" },
+            pitch: { kind: "osc", min: -24, max: 24, unit: "semitones", default: defaults.osc.grains.pitch, description: "Transposition of the grains" },
+            density: { kind: "osc", min: 0, max: 500, unit: "grains/s", default: defaults.osc.grains.density, description: "Grains started per second" },
+            panSpread: { kind: "osc", min: 0, max: 1, unit: "pan", default: defaults.osc.grains.panSpread, description: "Stereo spread of the grains" },
+        },
+    },
+    rand: {
+        grains: {
+            position: { kind: "rand", min: -1, max: 1, unit: "", default: defaults.rand.grains.position, description: "Position offset of a single grain" },
+            length: { kind: "rand", min: -1, max: 1, unit: "s", default: defaults.rand.grains.length, description: "Length offset of a single grain" },
+            pitch: { kind: "rand", min: -24, max: 24, unit: "semitones", default: defaults.rand.grains.pitch, description: "Pitch offset of a single grain" },
+        },
+    },
+};
+
+const ENVELOPE_POINTS = 256;
+
+/**
+ * Plays randomized grains from user-supplied recordings. Buffers aren't part
+ * of the params, so hand them over with `setBuffers()`; until then the
+ * generator is silent.
+ */
+export class GranularGenerator extends BaseGenerator<GranularParams> {
+    private running = false;
+    private nextGrainIn = 0;
+    private buffers: AudioBuffer[] = [];
+    private envelopes = new Map<GrainEnvelope, Float32Array>();
+
+    constructor(ctx: BaseAudioContext, destination: AudioNode, initialParams: GranularParams, random: Random = Math.random, buffers: AudioBuffer[] = []) {
+        super(ctx, destination, initialParams, true, [100, 300, 600, 1200, 2400, 4800], random);
+        this.schema = granularParamsSchemaV2;
+        this.buffers = buffers;
+        this.applyParams();
+    }
+
+    start() {
+        this.running = true;
+        this.nextGrainIn = 0;
+    }
+
+    stop() {
+        this.running = false;
+    }
+
+    destroy() {
+        this.stop();
+        this.buffers = [];
+    }
+
+    updateParams(newParams: DeepPartial<GranularParams>): void {
+        super.updateParams(newParams);
+        this.applyParams();
+    }
+
+    /** Recordings to take grains from; each grain picks one at random. */
+    setBuffers(buffers: AudioBuffer[]) {
+        this.buffers = buffers;
+    }
+
+    getBuffers(): AudioBuffer[] {
+        return this.buffers;
+    }
+
+    tick(dt: number) {
+        if (!this.running) return;
+        this.time += dt;
+
+        const now = this.ctx.currentTime;
+        this.nextGrainIn -= dt;
+        while (this.nextGrainIn <= 0) {
+            const density = this.oscValue(this.params.osc.grains.density);
+            if (density <= 0 || this.buffers.length === 0) {
+                this.nextGrainIn = 0;
+                return;
+            }
+            this.scheduleGrain(now + dt + this.nextGrainIn, density);
+            // Jittered spacing keeps overlapping grains from phasing into a buzz
+            this.nextGrainIn += (0.5 + this.random()) / density;
+        }
+    }
+
+    private applyParams() {
+        const { main } = this.params.const;
+        this.gainNode.gain.value = main.volume;
+        this.eqNode.forEach((band, i) => {
+            band.gain.value = main.eqGains[i] ?? 0;
+        });
+    }
+
+    private scheduleGrain(time: number, density: number) {
+        const { grains } = this.params.osc;
+        const jitter = this.params.rand.grains;
+        const buffer = this.buffers[Math.floor(this.random() * this.buffers.length)];
+
+        const semitones = this.oscValue(grains.pitch) + this.rand(jitter.pitch);
+        const rate = Math.pow(2, semitones / 12);
+        const length = Math.max(0.005, this.oscValue(grains.length) + this.rand(jitter.length));
+
+        // Wrap the position around so grains never run off the end of the recording
+        const span = length * rate;
+        const usable = Math.max(0, buffer.duration - span);
+        const position = this.oscValue(grains.position) + this.rand(jitter.position);
+        const offset = (((position % 1) + 1) % 1) * usable;
+
+        const source = this.ctx.createBufferSource();
+        source.buffer = buffer;
+        source.playbackRate.value = rate;
+
+        // Overlapping grains add up, so each one gets quieter as they pile up
+        const level = 1 / Math.sqrt(Math.max(1, density * length));
+        const env = this.ctx.createGain();
+        env.gain.value = 0;
+        env.gain.setValueCurveAtTime(this.envelope(this.params.const.envelope.shape, level), time, length);
+
+        const spread = Math.max(0, Math.min(1, this.oscValue(grains.panSpread)));
+        const pan = this.ctx.createStereoPanner();
+        pan.pan.value = this.randomBetween(-spread, spread);
+
+        source.connect(env).connect(pan).connect(this.eqNode[0] ?? this.gainNode);
+        source.start(time, offset, Math.min(span, buffer.duration));
+        source.stop(time + length + 0.01);
+    }
+
+    private envelope(shape: GrainEnvelope, level: number): Float32Array {
+        let curve = this.envelopes.get(shape);
+        if (!curve) {
+            curve = new Float32Array(ENVELOPE_POINTS);
+            for (let i = 0; i < ENVELOPE_POINTS; i++) {
+                const x = i / (ENVELOPE_POINTS - 1);
+                switch (shape) {
+                    case "triangle": curve[i] = 1 - Math.abs(2 * x - 1); break;
+                    case "expodec": curve[i] = Math.min(1, x * 50) * Math.exp(-5 * x) * (1 - x); break;
+                    default: curve[i] = Math.sin(Math.PI * x) ** 2;
+                }
+            }
+            this.envelopes.set(shape, curve);
+        }
+        return curve.map(value => value * level);
+    }
+}
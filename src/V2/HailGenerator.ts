@@ -0,0 +1,236 @@
+import { BaseGenerator } from "./BaseGenerator";
+import { Random } from "../types/Random";
+import { createImpulseResponse } from "../functions/createImpulseResponse";
+import { createNoiseBuffer } from "../functions/createNoiseBuffer";
+import { eqGainsSpec } from "../functions/validateParams";
+import { ParamSchema } from "../types/ParamSchema";
+import { HailParams } from "./types/HailParams";
+import { DeepPartial } from "./types/ParamPath";
+
+export const _defaultHailParamsV2: HailParams = {
+    const: {
+        main: {
+            volume: 0.5,
+            eqGains: new Array(6).fill(0),
+        },
+        stones: {
+            rate: 40,
+            meanSize: 0.8,
+            maxSize: 5,
+            panRange: 1,
+        },
+        bounces: {
+            count: 3,
+            level: 0.4,
+        },
+        shower: {
+            curve: "swell",
+            period: 60,
+        },
+        reverb: {
+            wetLevel: 0.2,
+        },
+    },
+};
+
+const defaults = _defaultHailParamsV2;
+
+export const hailParamsSchemaV2: ParamSchema<HailParams> = {
+    const: {
+        main: {
+            volume: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.main.volume, description: "Output volume of the hail" },
+            eqGains: eqGainsSpec(6),
+        },
+        stones: {
+            rate: { kind: "number", min: 0, max: 500, unit: "stones/s", default: defaults.const.stones.rate, description: "Stones per second at the peak of the shower" },
+            meanSize: { kind: "number", min: 0.1, max: 10, unit: "cm", default: defaults.const.stones.meanSize, description: "Mean diameter of a stone" },
+            maxSize: { kind: "number", min: 0.1, max: 15, unit: "cm", default: defaults.const.stones.maxSize, description: "Largest diameter of a stone" },
+            panRange: { kind: "number", min: 0, max: 1, unit: "pan", default: defaults.const.stones.panRange, description: "Stereo spread of the impacts" },
+        },
+        bounces: {
+            count: { kind: "number", min: 0, max: 8, unit: "", integer: true, default: defaults.const.bounces.count, description: "Most bounces after an impact" },
+            level: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.bounces.level, description: "Level of the first bounce relative to the impact" },
+        },
+        shower: {
+            curve: { kind: "enum", values: ["steady", "swell", "burst"], default: defaults.const.shower.curve, description: "Shape of the density over a shower period" },
+            period: { kind: "number", min: 1, max: 3600, unit: "s", default: defaults.const.shower.period, description: "Length of one shower" },
+        },
+        reverb: {
+            wetLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.reverb.wetLevel, description: "Level sent to the reverb" },
+        },
+    },
+};
+
+// Share of the bounce height kept at every bounce, so each gap is this much shorter
+const RESTITUTION = 0.5;
+const MIN_SIZE = 0.2;
+
+export class HailGenerator extends BaseGenerator<HailParams> {
+    private running = false;
+    private nextStoneIn = 0;
+    private mixFrom = 1;
+    private mixTo = 1;
+    private mixStart = 0;
+    private mixEnd = 0;
+
+    private noiseBuffer: AudioBuffer;
+    private dryGain = this.ctx.createGain();
+    private wetGain = this.ctx.createGain();
+    private reverbNode = this.ctx.createConvolver();
+
+    constructor(ctx: BaseAudioContext, destination: AudioNode, initialParams: HailParams, random: Random = Math.random) {
+        super(ctx, destination, initialParams, true, [100, 300, 600, 1200, 2400, 4800], random);
+        this.schema = hailParamsSchemaV2;
+
+        this.noiseBuffer = createNoiseBuffer(this.ctx, "white", this.random, 1);
+
+        const input = this.eqNode[0] ?? this.gainNode;
+        this.reverbNode.buffer = createImpulseResponse(this.ctx, 1.5, 3, this.random);
+        this.dryGain.connect(input);
+        this.wetGain.connect(this.reverbNode);
+        this.reverbNode.connect(input);
+        this.applyParams();
+    }
+
+    start() {
+        if (this.running) return;
+        this.running = true;
+        this.time = 0;
+        this.nextStoneIn = 0;
+    }
+
+    stop() {
+        this.running = false;
+    }
+
+    destroy() {
+        this.stop();
+        this.dryGain.disconnect();
+        this.wetGain.disconnect();
+        this.reverbNode.disconnect();
+    }
+
+    updateParams(newParams: DeepPartial<HailParams>): void {
+        super.updateParams(newParams);
+        this.applyParams();
+    }
+
+    /**
+     * Scales the density by `mix` (0..1), moving there linearly over
+     * `rampTime` seconds of audio time.
+     */
+    setMix(mix: number, rampTime: number = 0) {
+        const now = this.ctx.currentTime;
+        this.mixFrom = this.mixAt(now);
+        this.mixTo = mix;
+        this.mixStart = now;
+        this.mixEnd = now + rampTime;
+    }
+
+    tick(dt: number) {
+        if (!this.running) return;
+        const now = this.ctx.currentTime;
+        this.time += dt;
+
+        // Thinning: candidates come at the peak rate and each one falls with
+        // the share of the peak the shower and the mix allow at its time
+        const peak = this.params.const.stones.rate;
+        if (peak <= 0) {
+            this.nextStoneIn = 0;
+            return;
+        }
+        this.nextStoneIn -= dt;
+        while (this.nextStoneIn <= 0) {
+            const time = now + dt + this.nextStoneIn;
+            if (this.random() < this.density(this.time + this.nextStoneIn) * this.mixAt(time)) {
+                this.scheduleStone(time);
+            }
+            this.nextStoneIn += -Math.log(1 - this.random()) / peak;
+        }
+    }
+
+    private applyParams() {
+        const { main, reverb } = this.params.const;
+        this.gainNode.gain.value = main.volume;
+        this.eqNode.forEach((band, i) => {
+            band.gain.value = main.eqGains[i] ?? 0;
+        });
+        this.wetGain.gain.value = reverb.wetLevel;
+    }
+
+    // 0..1 share of the peak rate at `time` seconds into the shower
+    private density(time: number): number {
+        const { curve, period } = this.params.const.shower;
+        const phase = (time % period) / period;
+        switch (curve) {
+            case "swell": return Math.sin(Math.PI * phase) ** 2;
+            case "burst": return Math.exp(-5 * phase);
+            default: return 1;
+        }
+    }
+
+    private mixAt(time: number): number {
+        if (time >= this.mixEnd) return this.mixTo;
+        const progress = (time - this.mixStart) / (this.mixEnd - this.mixStart);
+        return this.mixFrom + (this.mixTo - this.mixFrom) * progress;
+    }
+
+    /**
+     * One stone: an impact followed by bounces that come quicker and quieter,
+     * like a ball losing height. Sizes are exponentially distributed, so most
+     * stones are small and the odd big one stands out.
+     */
+    private scheduleStone(time: number) {
+        const { meanSize, maxSize, panRange } = this.params.const.stones;
+        const size = Math.min(maxSize, MIN_SIZE + -Math.log(1 - this.random()) * Math.max(0, meanSize - MIN_SIZE));
+        const pan = this.randomBetween(-panRange, panRange);
+
+        // Small stones click bright and short, big ones knock lower and louder
+        const pitch = 7000 / Math.sqrt(size);
+        const decay = 0.008 + size * 0.01;
+        const level = Math.min(1, 0.15 * size ** 1.5);
+        this.scheduleImpact(time, pitch, decay, level, pan);
+
+        const { count, level: bounceLevel } = this.params.const.bounces;
+        const bounces = Math.round(count * Math.min(1, size / maxSize + this.random() * 0.5));
+        let gap = 0.04 + size * 0.03;
+        let at = time;
+        for (let i = 1; i <= bounces; i++) {
+            at += gap;
+            gap *= RESTITUTION;
+            this.scheduleImpact(
+                at,
+                pitch * (1 + i * 0.1),
+                decay * 0.7,
+                level * bounceLevel * RESTITUTION ** (i - 1),
+                Math.max(-1, Math.min(1, pan + this.randomBetween(-0.05, 0.05)))
+            );
+        }
+    }
+
+    private scheduleImpact(time: number, pitch: number, decay: number, level: number, panValue: number) {
+        const noise = this.ctx.createBufferSource();
+        noise.buffer = this.noiseBuffer;
+
+        const env = this.ctx.createGain();
+        env.gain.setValueAtTime(level, time);
+        env.gain.exponentialRampToValueAtTime(0.001, time + decay);
+
+        const filter = this.ctx.createBiquadFilter();
+        filter.type = "bandpass";
+        filter.frequency.value = Math.min(pitch, this.ctx.sampleRate / 2 - 100);
+        filter.Q.value = 1.5;
+
+        const pan = this.ctx.createStereoPanner();
+        pan.pan.value = panValue;
+
+        noise.connect(env);
+        env.connect(filter);
+        filter.connect(pan);
+        pan.connect(this.dryGain);
+        pan.connect(this.wetGain);
+
+        noise.start(time, this.random() * (this.noiseBuffer.duration - decay));
+        noise.stop(time + decay + 0.05);
+    }
+}
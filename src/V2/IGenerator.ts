@@ -1,3 +1,5 @@
+import { ValidationMode } from "../types/ParamSchema";
+
 export interface IGenerator {
     start(): void;
     stop(): void;
@@ -6,6 +8,9 @@ export interface IGenerator {
     updateParams(params: Partial<Record<string, any>>): void;
     setParam(name: string, value: any): void;
     getParams(): Record<string, any>;
+    setValidationMode?(mode: ValidationMode): void;
+    onParamChange?(listener: (path: string) => void): () => void;
 
+    /** Advances the generator by `dt` seconds. */
     tick?(dt: number): void;
 }
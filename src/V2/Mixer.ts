@@ -0,0 +1,271 @@
+import { Random } from "../types/Random";
+import { NumberSpec, ParamSchema, ValidationMode } from "../types/ParamSchema";
+import { validateParams } from "../functions/validateParams";
+import { createImpulseResponse } from "../functions/createImpulseResponse";
+import { ChannelStripParams, MixerParams, MixerUpdate, SendBusParams } from "./types/MixerParams";
+
+export const _defaultChannelStrip: ChannelStripParams = {
+    gain: 1,
+    mute: false,
+    solo: false,
+    pan: 0,
+    sends: {},
+};
+
+export const _defaultSendBus: SendBusParams = {
+    gain: 1,
+    duration: 3,
+    decay: 2,
+};
+
+export const channelStripSchema: ParamSchema<Omit<ChannelStripParams, "sends">> = {
+    gain: { kind: "number", min: 0, max: 2, unit: "gain", default: 1, description: "Fader level of the strip" },
+    mute: { kind: "boolean", default: false, description: "Silences the strip and its sends" },
+    solo: { kind: "boolean", default: false, description: "While any strip is soloed, only soloed strips play" },
+    pan: { kind: "number", min: -1, max: 1, unit: "pan", default: 0, description: "Stereo position of the strip" },
+};
+
+export const sendLevelSpec: NumberSpec = {
+    kind: "number", min: 0, max: 1, unit: "gain", default: 0, description: "Post-fader send level into a bus",
+};
+
+export const sendBusSchema: ParamSchema<SendBusParams> = {
+    gain: { kind: "number", min: 0, max: 2, unit: "gain", default: 1, description: "Return level of the bus" },
+    duration: { kind: "number", min: 0.1, max: 10, unit: "s", default: 3, description: "Reverb length" },
+    decay: { kind: "number", min: 0.1, max: 10, unit: "", default: 2, description: "Reverb decay exponent" },
+};
+
+interface Strip {
+    input: GainNode;
+    fader: GainNode;
+    panner: StereoPannerNode;
+    sends: Map<string, GainNode>;
+}
+
+interface Bus {
+    input: GainNode;
+    convolver: ConvolverNode;
+    output: GainNode;
+}
+
+/**
+ * Channel strips with gain, mute, solo and pan for every generator, and
+ * named reverb buses the strips send into. Strips are created with
+ * `addStrip(id)` and feed the generator's output into `output`.
+ */
+export class Mixer {
+    private ctx: BaseAudioContext;
+    private output: AudioNode;
+    private random: Random;
+    private params: MixerParams;
+    private strips = new Map<string, Strip>();
+    private buses = new Map<string, Bus>();
+    private validationMode: ValidationMode = "clamp";
+    private paramListeners = new Set<(path: string) => void>();
+
+    constructor(ctx: BaseAudioContext, output: AudioNode, params: Partial<MixerParams> = {}, random: Random = Math.random) {
+        this.ctx = ctx;
+        this.output = output;
+        this.random = random;
+        this.params = { strips: {}, buses: {} };
+
+        // Strips get their nodes once a generator asks for them
+        Object.entries(params.strips ?? {}).forEach(([id, strip]) => {
+            this.params.strips[id] = this.validateStrip(id, { ..._defaultChannelStrip, ...strip, sends: { ...strip.sends } });
+        });
+        Object.entries(params.buses ?? { reverb: _defaultSendBus }).forEach(([name, bus]) => this.addBus(name, bus));
+    }
+
+    /**
+     * Creates the strip for `id` (with its stored params, if any) and returns
+     * the node the generator should connect to.
+     */
+    addStrip(id: string): AudioNode {
+        const existing = this.strips.get(id);
+        if (existing) return existing.input;
+
+        const params = this.params.strips[id] ?? { ..._defaultChannelStrip, sends: {} };
+        this.params.strips[id] = params;
+
+        const strip: Strip = {
+            input: this.ctx.createGain(),
+            fader: this.ctx.createGain(),
+            panner: this.ctx.createStereoPanner(),
+            sends: new Map(),
+        };
+        strip.panner.pan.value = params.pan;
+        strip.input.connect(strip.fader).connect(strip.panner).connect(this.output);
+        this.strips.set(id, strip);
+
+        this.buses.forEach((_, name) => this.connectSend(id, name));
+        this.applyFaders();
+        return strip.input;
+    }
+
+    removeStrip(id: string) {
+        const strip = this.strips.get(id);
+        if (strip) {
+            strip.input.disconnect();
+            strip.fader.disconnect();
+            strip.panner.disconnect();
+            strip.sends.forEach(send => send.disconnect());
+            this.strips.delete(id);
+        }
+        delete this.params.strips[id];
+        this.applyFaders();
+    }
+
+    addBus(name: string, params: Partial<SendBusParams> = {}) {
+        if (this.buses.has(name)) return;
+
+        const validated = this.validateBus(name, { ..._defaultSendBus, ...params });
+        this.params.buses[name] = validated;
+
+        const bus: Bus = {
+            input: this.ctx.createGain(),
+            convolver: this.ctx.createConvolver(),
+            output: this.ctx.createGain(),
+        };
+        bus.convolver.buffer = createImpulseResponse(this.ctx, validated.duration, validated.decay, this.random);
+        bus.output.gain.value = validated.gain;
+        bus.input.connect(bus.convolver).connect(bus.output).connect(this.output);
+        this.buses.set(name, bus);
+
+        this.strips.forEach((_, id) => this.connectSend(id, name));
+    }
+
+    removeBus(name: string) {
+        const bus = this.buses.get(name);
+        if (!bus) return;
+
+        this.strips.forEach(strip => {
+            strip.sends.get(name)?.disconnect();
+            strip.sends.delete(name);
+        });
+        bus.input.disconnect();
+        bus.convolver.disconnect();
+        bus.output.disconnect();
+        this.buses.delete(name);
+        delete this.params.buses[name];
+    }
+
+    /**
+     * Applies a partial mixer state. Strips without a generator yet keep their
+     * params until one is added; unknown buses are created.
+     */
+    update(update: MixerUpdate) {
+        Object.entries(update.strips ?? {}).forEach(([id, changes]) => this.updateStrip(id, changes));
+
+        Object.entries(update.buses ?? {}).forEach(([name, changes]) => {
+            if (!this.buses.has(name)) {
+                this.addBus(name, changes);
+                this.notifyParamChange(`buses.${name}`);
+            } else {
+                this.updateBus(name, changes);
+            }
+        });
+    }
+
+    getParams(): MixerParams {
+        return this.params;
+    }
+
+    onParamChange(listener: (path: string) => void): () => void {
+        this.paramListeners.add(listener);
+        return () => this.paramListeners.delete(listener);
+    }
+
+    setValidationMode(mode: ValidationMode) {
+        this.validationMode = mode;
+    }
+
+    destroy() {
+        [...this.strips.keys()].forEach(id => this.removeStrip(id));
+        [...this.buses.keys()].forEach(name => this.removeBus(name));
+    }
+
+    private updateStrip(id: string, changes: Partial<ChannelStripParams>) {
+        const params = this.params.strips[id] ?? { ..._defaultChannelStrip, sends: {} };
+        this.params.strips[id] = params;
+        const validated = this.validateStrip(id, changes);
+        const strip = this.strips.get(id);
+
+        (["gain", "mute", "solo", "pan"] as const).forEach(key => {
+            const value = validated[key];
+            if (value === undefined || value === params[key]) return;
+            (params as unknown as Record<string, unknown>)[key] = value;
+            if (key === "pan" && strip) strip.panner.pan.value = value as number;
+            this.notifyParamChange(`strips.${id}.${key}`);
+        });
+
+        Object.entries(validated.sends ?? {}).forEach(([name, level]) => {
+            if (params.sends[name] === level) return;
+            params.sends[name] = level;
+            const send = strip?.sends.get(name);
+            if (send) send.gain.value = level;
+            this.notifyParamChange(`strips.${id}.sends.${name}`);
+        });
+
+        this.applyFaders();
+    }
+
+    private updateBus(name: string, changes: Partial<SendBusParams>) {
+        const params = this.params.buses[name];
+        const bus = this.buses.get(name)!;
+        const validated = this.validateBus(name, changes);
+
+        if (validated.gain !== undefined && validated.gain !== params.gain) {
+            params.gain = validated.gain;
+            bus.output.gain.value = validated.gain;
+            this.notifyParamChange(`buses.${name}.gain`);
+        }
+
+        const duration = validated.duration ?? params.duration;
+        const decay = validated.decay ?? params.decay;
+        if (duration !== params.duration || decay !== params.decay) {
+            params.duration = duration;
+            params.decay = decay;
+            bus.convolver.buffer = createImpulseResponse(this.ctx, duration, decay, this.random);
+            this.notifyParamChange(`buses.${name}.duration`);
+            this.notifyParamChange(`buses.${name}.decay`);
+        }
+    }
+
+    private connectSend(id: string, name: string) {
+        const strip = this.strips.get(id)!;
+        const send = this.ctx.createGain();
+        send.gain.value = this.params.strips[id].sends[name] ?? 0;
+        strip.panner.connect(send).connect(this.buses.get(name)!.input);
+        strip.sends.set(name, send);
+    }
+
+    // Mute and solo act on the fader, so sends are silenced along with the strip
+    private applyFaders() {
+        const strips = Object.values(this.params.strips);
+        const anySolo = strips.some(strip => strip.solo);
+        this.strips.forEach((strip, id) => {
+            const params = this.params.strips[id];
+            const audible = !params.mute && (!anySolo || params.solo);
+            strip.fader.gain.value = audible ? params.gain : 0;
+        });
+    }
+
+    private validateStrip<S extends Partial<ChannelStripParams>>(id: string, strip: S): S {
+        const path = `mixer.strips.${id}`;
+        const validated = validateParams(channelStripSchema, strip, this.validationMode, path) as S;
+        if (!strip.sends) return validated;
+
+        const sendsSchema: ParamSchema<Record<string, number>> = {};
+        Object.keys(strip.sends).forEach(name => sendsSchema[name] = sendLevelSpec);
+        const sends = validateParams(sendsSchema, strip.sends, this.validationMode, `${path}.sends`);
+        return { ...validated, sends };
+    }
+
+    private validateBus<B extends Partial<SendBusParams>>(name: string, bus: B): B {
+        return validateParams(sendBusSchema, bus, this.validationMode, `mixer.buses.${name}`) as B;
+    }
+
+    private notifyParamChange(path: string) {
+        this.paramListeners.forEach(listener => listener(path));
+    }
+}
@@ -1,24 +1,83 @@
-import { RainGenerator } from "./RainGenerator";
-import { ThunderGenerator } from "./ThunderGenerator";
+import { RainGenerator, rainParamsSchemaV2 } from "./RainGenerator";
+import { ThunderGenerator, thunderParamsSchemaV2 } from "./ThunderGenerator";
+import { DripGenerator } from "./DripGenerator";
+import { GranularGenerator } from "./GranularGenerator";
+import { HailGenerator, _defaultHailParamsV2, hailParamsSchemaV2 } from "./HailGenerator";
 import { NoiseDParams } from "./types/NoiseDParams"; // Your existing param structure
 import { RainParams } from "./types/RainParams";
 import { ThunderParams } from "./types/ThunderParams";
+import { HailParams } from "./types/HailParams";
+import { Random } from "../types/Random";
+import { createSeededRandom, forkRandom } from "../functions/createSeededRandom";
+import { audioBufferToWavBlob } from "../functions/encodeWav";
+import { eqGainsSpec, validateParams } from "../functions/validateParams";
+import { ParamSchema, ValidationMode } from "../types/ParamSchema";
+import { DeepPartial, ParamListener, ParamPath, ParamPathValue } from "./types/ParamPath";
+import { deepMerge, getAtPath, pathsOverlap, setAtPath } from "../functions/paramPath";
+import { EventEmitter } from "../events/EventEmitter";
+import { NoiseDEvents } from "../types/NoiseDEvents";
+import { ClockDriver } from "../types/ClockDriver";
+import { IGenerator } from "./IGenerator";
+import { GeneratorInstance } from "./types/GeneratorInstance";
+import { GeneratorParamsOf, generatorRegistry } from "./GeneratorRegistry";
+import { Mixer } from "./Mixer";
+import { MixerUpdate, SendBusParams } from "./types/MixerParams";
 
-export class NoiseDController {
-    private ctx: AudioContext;
+// Entries of `generators` are validated against the schema of their registered type,
+// the mixer validates its own state
+export const noiseDParamsSchemaV2: ParamSchema<Omit<NoiseDParams, "generators" | "mixer">> = {
+    masterVolume: { kind: "number", min: 0, max: 1, unit: "gain", default: 0.5, description: "Master output volume" },
+    eqGains: eqGainsSpec(10),
+    rainParams: {
+        ...rainParamsSchemaV2,
+        on: { kind: "boolean", default: true, description: "Whether the rain plays" },
+    },
+    thunderParams: {
+        ...thunderParamsSchemaV2,
+        on: { kind: "boolean", default: true, description: "Whether thunders are scheduled" },
+    },
+    hailParams: {
+        ...hailParamsSchemaV2,
+        on: { kind: "boolean", default: true, description: "Whether hail falls when mixed in" },
+    },
+    hailMix: { kind: "number", min: 0, max: 1, unit: "", default: 0, description: "Crossfade from rain (0) to hail (1)" },
+    seed: { kind: "number", min: 0, max: 4294967295, unit: "", integer: true, default: 0, description: "Seed of the PRNG for reproducible output" },
+};
+
+export class NoiseDController<T extends BaseAudioContext = AudioContext> extends EventEmitter<NoiseDEvents> {
+    private ctx: T;
+    private ownsContext: boolean;
     private masterGain: GainNode;
     private globalEQ: BiquadFilterNode[] = [];
     private destination: AudioNode;
 
     private rain: RainGenerator;
     private thunder: ThunderGenerator;
+    private hail: HailGenerator;
+    private rainMix: GainNode;
+    private mixer: Mixer;
+    private generators = new Map<string, { instance: GeneratorInstance; generator: IGenerator }>();
 
     private params: NoiseDParams;
+    private random: Random;
+    /** The PRNG passed to the constructor, if any, so offline renders can use it too. */
+    private injectedRandom?: Random;
+    private validationMode: ValidationMode = "clamp";
+    private subscriptions = new Set<{ path: string; listener: ParamListener<any>; last: unknown }>();
+    private driver: ClockDriver | null = null;
+    private stopDriver: (() => void) | null = null;
+    private running = false;
 
     private eqFrequencies = [60, 170, 310, 600, 1000, 3000, 6000, 12000, 14000, 16000];
 
-    constructor(initialParams: NoiseDParams) {
-        this.ctx = new AudioContext();
+    constructor(initialParams: NoiseDParams, ctx?: T, random?: Random) {
+        super();
+        // Only a context we created ourselves gets closed on destroy()
+        this.ownsContext = !ctx;
+        this.ctx = ctx ?? (new AudioContext() as BaseAudioContext as T);
+        this.injectedRandom = random;
+        this.random = random
+            ?? (initialParams.seed !== undefined ? createSeededRandom(initialParams.seed) : Math.random);
 
         // Global EQ
         this.globalEQ = this.eqFrequencies.map(freq => {
@@ -32,17 +91,55 @@ export class NoiseDController {
 
         // Master gain
         this.masterGain = this.ctx.createGain();
-        this.masterGain.gain.value = initialParams.masterVolume;
+        this.params = { ...initialParams, ...validateParams(noiseDParamsSchemaV2, initialParams) };
+        this.masterGain.gain.value = this.params.masterVolume;
 
         // Connect EQ → gain → ctx.destination
         this.chainNodes([...this.globalEQ, this.masterGain, this.ctx.destination]);
         this.destination = this.globalEQ[0];
 
-        this.params = initialParams;
+        // Forked before the mixer's stream so seeded rain and thunder sound the same as before
+        const rainRandom = forkRandom(this.random);
+        const thunderRandom = forkRandom(this.random);
+
+        // Every generator plays through its own channel strip into the EQ
+        this.mixer = new Mixer(this.ctx, this.destination, this.params.mixer, forkRandom(this.random));
+        this.params.mixer = this.mixer.getParams();
+        this.mixer.onParamChange(path => this.notify(`mixer.${path}`));
+
+        // Scenes saved before hail existed play without it
+        this.params.hailParams = { ...structuredClone(_defaultHailParamsV2), on: true, ...this.params.hailParams };
+        this.params.hailMix ??= 0;
 
         // Create generators with their own EQ + gain
-        this.rain = new RainGenerator(this.ctx, this.destination, initialParams.rainParams);
-        this.thunder = new ThunderGenerator(this.ctx, this.destination, initialParams.thunderParams);
+        this.rainMix = this.ctx.createGain();
+        this.rainMix.connect(this.mixer.addStrip("rain"));
+        this.rain = new RainGenerator(this.ctx, this.rainMix, this.params.rainParams, rainRandom);
+        this.thunder = new ThunderGenerator(this.ctx, this.mixer.addStrip("thunder"), this.params.thunderParams, thunderRandom);
+        this.hail = new HailGenerator(this.ctx, this.mixer.addStrip("hail"), this.params.hailParams, forkRandom(this.random));
+        this.setHailMix(this.params.hailMix);
+
+        // Generators share their params objects with ours and report every change, including modulation
+        this.rain.onParamChange(path => this.notify(`rainParams.${path}`));
+        this.thunder.onParamChange(path => this.notify(`thunderParams.${path}`));
+        this.hail.onParamChange(path => this.notify(`hailParams.${path}`));
+
+        this.forwardEvents(this.rain);
+        this.forwardEvents(this.thunder);
+
+        const instances = this.params.generators ?? [];
+        this.params.generators = [];
+        instances.forEach(({ id, type, params, on }) => this.addGenerator(id, type, params, on));
+    }
+
+    private forwardEvents(generator: IGenerator) {
+        if (generator instanceof RainGenerator) {
+            generator.on("drop", e => this.emit("drop", e));
+        } else if (generator instanceof ThunderGenerator) {
+            generator.on("thunderScheduled", e => this.emit("thunderScheduled", e));
+            generator.on("thunderStart", e => this.emit("thunderStart", e));
+            generator.on("burst", e => this.emit("burst", e));
+        }
     }
 
     private chainNodes(nodes: AudioNode[]) {
@@ -52,29 +149,72 @@ export class NoiseDController {
     }
 
     start() {
+        this.running = true;
         if (this.params.rainParams.on) this.rain.start();
         if (this.params.thunderParams.on) this.thunder.start();
+        if (this.params.hailParams?.on) this.hail.start();
+        this.generators.forEach(({ instance, generator }) => {
+            if (instance.on !== false) generator.start();
+        });
+        this.startDriver();
     }
 
     stop() {
+        this.running = false;
+        this.stopDriver?.();
+        this.stopDriver = null;
         this.rain.stop();
         this.thunder.stop();
+        this.hail.stop();
+        this.generators.forEach(({ generator }) => generator.stop());
+    }
+
+    /**
+     * Lets `driver` call `tick()` while the controller runs, so the host doesn't
+     * have to. Pass `null` to go back to ticking by hand.
+     */
+    setDriver(driver: ClockDriver | null) {
+        this.stopDriver?.();
+        this.stopDriver = null;
+        this.driver = driver;
+        if (this.running) this.startDriver();
+    }
+
+    private startDriver() {
+        if (this.driver && !this.stopDriver) {
+            this.stopDriver = this.driver.start(this.ctx, dt => this.tick(dt));
+        }
     }
 
     destroy() {
         this.stop();
         this.rain.destroy();
         this.thunder.destroy();
-        this.ctx.close();
+        this.hail.destroy();
+        this.rainMix.disconnect();
+        this.generators.forEach(({ generator }) => generator.destroy());
+        this.generators.clear();
+        this.mixer.destroy();
+        if (this.ownsContext && this.ctx instanceof AudioContext) {
+            this.ctx.close();
+        }
     }
 
     updateParams(newParams: Partial<NoiseDParams>) {
+        newParams = validateParams(noiseDParamsSchemaV2, newParams, this.validationMode);
+
         if (newParams.masterVolume !== undefined) {
             this.masterGain.gain.value = newParams.masterVolume;
         }
 
-        if (newParams.rainParams) this.rain.updateParams(newParams.rainParams);
-        if (newParams.thunderParams) this.thunder.updateParams(newParams.thunderParams);
+        // Generators update the shared params objects in place
+        const { rainParams, thunderParams, hailParams, hailMix, generators, mixer, ...rest } = newParams;
+        if (rainParams) this.rain.updateParams(rainParams);
+        if (thunderParams) this.thunder.updateParams(thunderParams);
+        if (hailParams) this.hail.updateParams(hailParams);
+        if (hailMix !== undefined) this.setHailMix(hailMix);
+        if (generators) this.syncGenerators(generators);
+        if (mixer) this.mixer.update(mixer);
 
         if (newParams.eqGains) {
             this.globalEQ.forEach((node, i) => {
@@ -82,30 +222,260 @@ export class NoiseDController {
             });
         }
 
-        this.params = {
-            ...this.params,
-            ...newParams,
-        };
+        Object.assign(this.params, rest);
+        Object.keys(rest).forEach(key => this.notify(key));
     }
 
-    updateRainParams(params: Partial<RainParams>) {
+    updateRainParams(params: DeepPartial<RainParams>) {
         this.rain.updateParams(params);
     }
 
-    updateThunderParams(params: Partial<ThunderParams>) {
+    updateThunderParams(params: DeepPartial<ThunderParams>) {
         this.thunder.updateParams(params);
     }
 
+    updateHailParams(params: DeepPartial<HailParams>) {
+        this.hail.updateParams(params);
+    }
+
+    /**
+     * Crossfades from rain (0) to hail (1) over `rampTime` seconds. The rain
+     * fades with an equal-power curve while fewer and fewer stones fall, so
+     * a storm can turn to hail and back.
+     */
+    setHailMix(mix: number, rampTime: number = 0) {
+        mix = validateParams(noiseDParamsSchemaV2, { hailMix: mix }, this.validationMode).hailMix!;
+        const now = this.ctx.currentTime;
+        const gain = this.rainMix.gain;
+        gain.cancelScheduledValues(now);
+        gain.setValueAtTime(gain.value, now);
+        gain.linearRampToValueAtTime(Math.cos(mix * Math.PI / 2), now + rampTime);
+        this.hail.setMix(mix, rampTime);
+
+        this.params.hailMix = mix;
+        this.notify("hailMix");
+    }
+
+    setThunderLeadTime(seconds: number) {
+        this.thunder.setLeadTime(seconds);
+    }
+
+    setDropEventInterval(seconds: number) {
+        this.rain.setDropEventInterval(seconds);
+    }
+
+    setValidationMode(mode: ValidationMode) {
+        this.validationMode = mode;
+        this.rain.setValidationMode(mode);
+        this.thunder.setValidationMode(mode);
+        this.hail.setValidationMode(mode);
+        this.generators.forEach(({ generator }) => generator.setValidationMode?.(mode));
+        this.mixer.setValidationMode(mode);
+    }
+
+    /**
+     * Changes channel strips (keyed by generator id) and send buses, e.g.
+     * `updateMixer({ strips: { thunder: { solo: true, sends: { reverb: 0.4 } } } })`.
+     */
+    updateMixer(update: MixerUpdate) {
+        this.mixer.update(update);
+    }
+
+    addSendBus(name: string, params: Partial<SendBusParams> = {}) {
+        this.mixer.addBus(name, params);
+        this.notify(`mixer.buses.${name}`);
+    }
+
+    removeSendBus(name: string) {
+        this.mixer.removeBus(name);
+        this.notify(`mixer.buses.${name}`);
+    }
+
+    /**
+     * Adds a generator of a registered `type`. Fields missing from `params`
+     * are taken from the type's defaults. It starts right away if the
+     * controller is running and `on` isn't false.
+     */
+    addGenerator<K extends string>(id: string, type: K, params?: DeepPartial<GeneratorParamsOf<K>>, on: boolean = true): IGenerator {
+        if (this.generators.has(id) || id === "rain" || id === "thunder" || id === "hail") {
+            throw new Error(`Generator "${id}" already exists`);
+        }
+
+        const definition = generatorRegistry.get(type);
+        // Partial groups keep their siblings from the defaults
+        const merged = deepMerge(structuredClone(definition.defaults), params, definition.schema);
+        const validated = definition.schema ? validateParams(definition.schema, merged, this.validationMode) : merged;
+
+        const generator = definition.create(this.ctx, this.mixer.addStrip(id), { ...merged, ...validated }, forkRandom(this.random));
+        generator.setValidationMode?.(this.validationMode);
+        this.forwardEvents(generator);
+
+        // The instance shares the generator's params object, so it serializes its current state
+        const instance: GeneratorInstance = { id, type, params: generator.getParams(), on };
+        this.generators.set(id, { instance, generator });
+        this.params.generators = [...(this.params.generators ?? []), instance];
+        this.notify("generators");
+
+        if (this.running && on) generator.start();
+        return generator;
+    }
+
+    removeGenerator(id: string) {
+        const entry = this.generators.get(id);
+        if (!entry) return;
+
+        entry.generator.stop();
+        entry.generator.destroy();
+        this.mixer.removeStrip(id);
+        this.generators.delete(id);
+        this.params.generators = (this.params.generators ?? []).filter(instance => instance !== entry.instance);
+        this.notify("generators");
+    }
+
+    getGenerator(id: string): IGenerator | undefined {
+        return this.generators.get(id)?.generator;
+    }
+
+    updateGeneratorParams(id: string, params: Record<string, any>) {
+        const entry = this.generators.get(id);
+        if (!entry) throw new Error(`Unknown generator "${id}"`);
+        entry.generator.updateParams(params);
+    }
+
+    // Adds, updates and removes generators to match a serialized list
+    private syncGenerators(instances: GeneratorInstance[]) {
+        const ids = new Set(instances.map(instance => instance.id));
+        this.generators.forEach((_, id) => {
+            if (!ids.has(id)) this.removeGenerator(id);
+        });
+
+        instances.forEach(({ id, type, params, on = true }) => {
+            const entry = this.generators.get(id);
+            if (entry && entry.instance.type !== type) this.removeGenerator(id);
+
+            const current = this.generators.get(id);
+            if (!current) {
+                this.addGenerator(id, type, params, on);
+                return;
+            }
+
+            // Like a new generator, fields the scene leaves out go back to the defaults
+            const definition = generatorRegistry.get(type);
+            current.generator.updateParams(deepMerge(structuredClone(definition.defaults), params, definition.schema));
+            if (on !== (current.instance.on !== false) && this.running) {
+                if (on) current.generator.start();
+                else current.generator.stop();
+            }
+            current.instance.on = on;
+        });
+    }
+
     getParams(): NoiseDParams {
         return this.params;
     }
 
+    /** Advances the scene by `dt` seconds. Called by the driver if one is set. */
     tick(dt: number) {
         this.rain.tick?.(dt);
         this.thunder.tick?.(dt);
+        this.hail.tick?.(dt);
+
+        // Drips follow the rain, and keep falling for a while once it stops
+        const rainRate = this.params.rainParams.on ? this.rain.getDropRate() : 0;
+        this.generators.forEach(({ generator }) => {
+            if (generator instanceof DripGenerator) generator.setRainRate(rainRate);
+            generator.tick?.(dt);
+        });
     }
 
-    setParam(path: string, value: any) {
-        // Optional: Implement nested path logic like "rainParams.dropRate"
+    /**
+     * Renders the current params into an `AudioBuffer` without real-time playback.
+     * The render is suspended at every `1 / tickRate` seconds of audio time to step
+     * `tick()`, so it runs as fast as the machine allows. The driver isn't used.
+     * A controller built with its own PRNG renders from a fork of it, and
+     * granular layers render with the recordings given to `setBuffers`.
+     * Rejects with the error if a tick throws.
+     */
+    async renderOffline(durationSec: number, tickRate: number = 60): Promise<AudioBuffer> {
+        const sampleRate = this.ctx.sampleRate;
+        const offlineCtx = new OfflineAudioContext(2, Math.ceil(durationSec * sampleRate), sampleRate);
+        // A seed in the params reseeds the clone; an injected PRNG is forked into it
+        const random = this.injectedRandom && forkRandom(this.injectedRandom);
+        const controller = new NoiseDController(structuredClone(this.params), offlineCtx, random);
+        // Recordings aren't part of the params, so the granular layers get theirs by hand
+        this.generators.forEach(({ generator }, id) => {
+            if (generator instanceof GranularGenerator) {
+                (controller.getGenerator(id) as GranularGenerator).setBuffers(generator.getBuffers());
+            }
+        });
+
+        // Suspend points are quantized to 128-frame render quanta and must be unique.
+        // A failing tick still resumes the render, which then rejects with the error.
+        const errors: unknown[] = [];
+        const dt = Math.max(1 / tickRate, 128 / sampleRate);
+        for (let time = dt; time < durationSec; time += dt) {
+            offlineCtx.suspend(time).then(() => {
+                try {
+                    if (errors.length === 0) controller.tick(dt);
+                } catch (error) {
+                    errors.push(error);
+                } finally {
+                    offlineCtx.resume();
+                }
+            });
+        }
+
+        try {
+            controller.start();
+            controller.tick(0);
+
+            const buffer = await offlineCtx.startRendering();
+            if (errors.length > 0) throw errors[0];
+            return buffer;
+        } finally {
+            controller.destroy();
+        }
+    }
+
+    async renderToFile(durationSec: number, tickRate: number = 60): Promise<Blob> {
+        const buffer = await this.renderOffline(durationSec, tickRate);
+        return audioBufferToWavBlob(buffer);
+    }
+
+    /**
+     * Sets a single value by its dotted path, e.g. `"rainParams.osc.drops.minPitch.value"`.
+     * The change is validated and applied like `updateParams`.
+     */
+    setParam<P extends ParamPath<NoiseDParams>>(path: P, value: ParamPathValue<NoiseDParams, P>) {
+        const [key, ...rest] = path.split(".") as [keyof NoiseDParams, ...string[]];
+        this.updateParams({ [key]: setAtPath(this.params[key], rest, value) });
+    }
+
+    /**
+     * Calls `listener` with the new value whenever the value at `path` changes,
+     * whether through `setParam`/`updateParams` or internal modulation.
+     * Returns an unsubscribe function.
+     */
+    subscribe<P extends ParamPath<NoiseDParams>>(
+        path: P,
+        listener: ParamListener<ParamPathValue<NoiseDParams, P>>
+    ): () => void {
+        const subscription = { path, listener, last: getAtPath(this.params, path) };
+        this.subscriptions.add(subscription);
+        return () => this.subscriptions.delete(subscription);
+    }
+
+    private notify(changedPath: string) {
+        this.subscriptions.forEach(subscription => {
+            if (!pathsOverlap(subscription.path, changedPath)) return;
+
+            // A change below the subscribed path mutates it in place; otherwise compare values
+            const value = getAtPath(this.params, subscription.path);
+            const isDescendant = changedPath.startsWith(`${subscription.path}.`);
+            if (!isDescendant && value === subscription.last) return;
+
+            subscription.last = value;
+            subscription.listener(value, changedPath);
+        });
     }
 }
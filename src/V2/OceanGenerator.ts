@@ -0,0 +1,229 @@
+import { BaseGenerator } from "./BaseGenerator";
+import { Random } from "../types/Random";
+import { createImpulseResponse } from "../functions/createImpulseResponse";
+import { createNoiseBuffer } from "../functions/createNoiseBuffer";
+import { eqGainsSpec } from "../functions/validateParams";
+import { ParamSchema } from "../types/ParamSchema";
+import { OceanParams } from "./types/OceanParams";
+import { DeepPartial } from "./types/ParamPath";
+
+// Sits mostly below the rain's 4 kHz noise bed, so the two layer without masking
+export const _defaultOceanParamsV2: OceanParams = {
+    const: {
+        main: {
+            volume: 0.4,
+            eqGains: new Array(6).fill(0),
+        },
+        waves: {
+            setSize: 4,
+            setPause: 12,
+            distance: 0.4,
+            shore: "sand",
+        },
+        reverb: {
+            wetLevel: 0.3,
+        },
+    },
+    rand: {
+        waves: {
+            period: { value: 8, rand: true, dist: 2 },
+            height: { value: 0.6, rand: true, dist: 0.2 },
+        },
+    },
+};
+
+const defaults = _defaultOceanParamsV2;
+
+export const oceanParamsSchemaV2: ParamSchema<OceanParams> = {
+    const: {
+        main: {
+            volume: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.main.volume, description: "Output volume of the ocean" },
+            eqGains: eqGainsSpec(6),
+        },
+        waves: {
+            setSize: { kind: "number", min: 1, max: 20, unit: "waves", integer: true, default: defaults.const.waves.setSize, description: "Number of waves in a set" },
+            setPause: { kind: "number", min: 0, max: 120, unit: "s", default: defaults.const.waves.setPause, description: "Calm between two sets" },
+            distance: { kind: "number", min: 0, max: 1, unit: "", default: defaults.const.waves.distance, description: "Distance from the waterline; far waves are quieter and duller" },
+            shore: { kind: "enum", values: ["sand", "rocks"], default: defaults.const.waves.shore, description: "Sand gives a soft crash and long fizz, rocks a hard crash and rattle" },
+        },
+        reverb: {
+            wetLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.reverb.wetLevel, description: "Level of the waves sent to the reverb" },
+        },
+    },
+    rand: {
+        waves: {
+            period: { kind: "rand", min: 2, max: 30, unit: "s", default: defaults.rand.waves.period, description: "Time between two waves of a set" },
+            height: { kind: "rand", min: 0, max: 1, unit: "", default: defaults.rand.waves.height, description: "Size of a wave" },
+        },
+    },
+};
+
+export class OceanGenerator extends BaseGenerator<OceanParams> {
+    private running = false;
+    private waveTimer = 0;
+    private nextWaveIn = 0;
+    private waveIndex = 0;
+
+    private pinkBuffer: AudioBuffer;
+    private whiteBuffer: AudioBuffer;
+    private dryGain = this.ctx.createGain();
+    private wetGain = this.ctx.createGain();
+    private reverbNode = this.ctx.createConvolver();
+
+    constructor(ctx: BaseAudioContext, destination: AudioNode, initialParams: OceanParams, random: Random = Math.random) {
+        super(ctx, destination, initialParams, true, [100, 300, 600, 1200, 2400, 4800], random);
+        this.schema = oceanParamsSchemaV2;
+
+        this.pinkBuffer = createNoiseBuffer(this.ctx, "pink", this.random, 8);
+        this.whiteBuffer = createNoiseBuffer(this.ctx, "white", this.random, 4);
+
+        const input = this.eqNode[0] ?? this.gainNode;
+        this.reverbNode.buffer = createImpulseResponse(this.ctx, 3, 2.5, this.random);
+        this.dryGain.connect(input);
+        this.wetGain.connect(this.reverbNode);
+        this.reverbNode.connect(input);
+        this.applyParams();
+    }
+
+    start() {
+        if (this.running) return;
+        this.running = true;
+        this.waveTimer = 0;
+        this.waveIndex = 0;
+        this.nextWaveIn = 0.5;
+    }
+
+    stop() {
+        this.running = false;
+    }
+
+    destroy() {
+        this.stop();
+        this.dryGain.disconnect();
+        this.wetGain.disconnect();
+        this.reverbNode.disconnect();
+    }
+
+    updateParams(newParams: DeepPartial<OceanParams>): void {
+        super.updateParams(newParams);
+        this.applyParams();
+    }
+
+    tick(dt: number) {
+        if (!this.running) return;
+        this.waveTimer += dt;
+        if (this.waveTimer < this.nextWaveIn) return;
+        this.waveTimer -= this.nextWaveIn;
+
+        const { setSize, setPause } = this.params.const.waves;
+        const period = this.rand(this.params.rand.waves.period);
+
+        // Waves build up towards the middle of a set and fade out again
+        const setShape = 0.6 + 0.4 * Math.sin(Math.PI * (this.waveIndex + 0.5) / setSize);
+        const height = Math.max(0.05, Math.min(1, this.rand(this.params.rand.waves.height) * setShape));
+        this.scheduleWave(this.ctx.currentTime, period, height);
+
+        this.waveIndex = (this.waveIndex + 1) % setSize;
+        this.nextWaveIn = this.waveIndex === 0 ? period + setPause : period;
+    }
+
+    private applyParams() {
+        const { main, reverb } = this.params.const;
+        this.gainNode.gain.value = main.volume;
+        this.eqNode.forEach((band, i) => {
+            band.gain.value = main.eqGains[i] ?? 0;
+        });
+        this.dryGain.gain.value = 1;
+        this.wetGain.gain.value = reverb.wetLevel;
+    }
+
+    /**
+     * One breaking wave: a swell that rises for 40% of the wave, a crash at
+     * the crest, then the fizz of the water running back.
+     */
+    private scheduleWave(when: number, period: number, height: number) {
+        const { distance, shore } = this.params.const.waves;
+        const rocks = shore === "rocks";
+        const level = height * (1 - distance * 0.7);
+        const duration = Math.max(2, Math.min(14, period * 0.9));
+        const crest = when + duration * 0.4;
+        const end = when + duration;
+        const fizzEnd = end + duration * 0.3;
+
+        const pan = this.ctx.createStereoPanner();
+        pan.pan.value = this.randomBetween(-0.3, 0.3);
+        pan.connect(this.dryGain);
+        pan.connect(this.wetGain);
+
+        // Swell
+        const swell = this.createSource(this.pinkBuffer);
+        const swellFilter = this.ctx.createBiquadFilter();
+        swellFilter.type = "lowpass";
+        const top = (400 + 1600 * height) * (1 - distance * 0.6);
+        swellFilter.frequency.setValueAtTime(150, when);
+        swellFilter.frequency.exponentialRampToValueAtTime(top, crest);
+        swellFilter.frequency.exponentialRampToValueAtTime(150, end);
+        const swellGain = this.ctx.createGain();
+        swellGain.gain.setValueAtTime(0.0001, when);
+        swellGain.gain.exponentialRampToValueAtTime(0.6 * level, crest);
+        swellGain.gain.exponentialRampToValueAtTime(0.0001, end);
+        swell.connect(swellFilter).connect(swellGain).connect(pan);
+
+        // Crash: rocks break hard and bright, sand softer and longer
+        const crash = this.createSource(this.whiteBuffer);
+        const crashFilter = this.ctx.createBiquadFilter();
+        crashFilter.type = rocks ? "highpass" : "bandpass";
+        crashFilter.frequency.value = rocks ? 500 : 1200;
+        crashFilter.Q.value = rocks ? 0.7 : 0.5;
+        const crashDistance = this.ctx.createBiquadFilter();
+        crashDistance.type = "lowpass";
+        crashDistance.frequency.value = 8000 * (1 - distance * 0.8);
+        const crashGain = this.ctx.createGain();
+        crashGain.gain.setValueAtTime(0, when);
+        crashGain.gain.setValueAtTime(0.0001, crest - 0.05);
+        crashGain.gain.linearRampToValueAtTime(level * (rocks ? 1 : 0.7), crest + (rocks ? 0.01 : 0.04));
+        crashGain.gain.exponentialRampToValueAtTime(0.0001, crest + (rocks ? 0.4 : 0.9));
+        crash.connect(crashFilter).connect(crashDistance).connect(crashGain).connect(pan);
+
+        // Fizz of the receding water
+        const fizz = this.createSource(this.whiteBuffer);
+        const fizzFilter = this.ctx.createBiquadFilter();
+        fizzFilter.type = "highpass";
+        fizzFilter.frequency.value = (rocks ? 2000 : 4000) * (1 - distance * 0.5);
+        const fizzGain = this.ctx.createGain();
+        fizzGain.gain.setValueAtTime(0, when);
+        fizzGain.gain.setValueAtTime(0.0001, crest);
+        fizzGain.gain.linearRampToValueAtTime(0.25 * level, crest + 0.3);
+        fizzGain.gain.exponentialRampToValueAtTime(0.0001, fizzEnd);
+        fizz.connect(fizzFilter).connect(fizzGain);
+
+        if (rocks) {
+            // Stones rolling back with the water
+            const rattle = this.ctx.createGain();
+            rattle.gain.value = 0.5;
+            const lfo = this.ctx.createOscillator();
+            lfo.type = "square";
+            lfo.frequency.value = this.randomBetween(8, 15);
+            const depth = this.ctx.createGain();
+            depth.gain.value = 0.5;
+            lfo.connect(depth).connect(rattle.gain);
+            fizzGain.connect(rattle).connect(pan);
+            lfo.start(crest);
+            lfo.stop(fizzEnd + 0.1);
+        } else {
+            fizzGain.connect(pan);
+        }
+
+        [swell, crash, fizz].forEach(source => {
+            source.start(when, this.random() * source.buffer!.duration);
+            source.stop(fizzEnd + 0.1);
+        });
+    }
+
+    private createSource(buffer: AudioBuffer): AudioBufferSourceNode {
+        const source = this.ctx.createBufferSource();
+        source.buffer = buffer;
+        source.loop = true;
+        return source;
+    }
+}
@@ -1,4 +1,18 @@
 import { BaseGenerator } from "./BaseGenerator";
+import { Random } from "../types/Random";
+import { createNoiseBuffer } from "../functions/createNoiseBuffer";
+import { createNoiseBed, NoiseBed } from "../functions/createNoiseBed";
+import { noiseTypes } from "../functions/fillNoise";
+import { createImpulseResponse } from "../functions/createImpulseResponse";
+import { DropTimer, _defaultDropTiming, dropTimingSchema } from "../scheduling/DropTimer";
+import { UNFILTERED, dropLayersSchema, withLayerDefaults } from "../functions/dropLayers";
+import { sampleDropRadius, scheduleBubbleDrop } from "../functions/scheduleBubbleDrop";
+import { _defaultSurfaceWeights, pickSurface, scheduleSurfaceImpact, surfaceWeightsSchema } from "../functions/scheduleSurfaceImpact";
+import { eqGainsSpec } from "../functions/validateParams";
+import { ParamSchema } from "../types/ParamSchema";
+import { Surface } from "../types/Surface";
+import { DropLayerParams } from "../types/DropLayer";
+import { RainEvents } from "../types/NoiseDEvents";
 import { RainParams, OscParam } from "./types/RainParams";
 
 export const _defaultRainParamsV2: RainParams = {
@@ -17,7 +31,16 @@ export const _defaultRainParamsV2: RainParams = {
             rate: 0.5,
             decayTime: 0.5,
             q: 1,
-        }
+        },
+        surfaces: { ..._defaultSurfaceWeights },
+        dropModel: {
+            type: 'noise',
+            radius: 1.5,
+            radiusSpread: 0.5,
+            distribution: 'exponential',
+            bubbleShare: 0.3,
+        },
+        timing: { ..._defaultDropTiming },
     },
     osc: {
         noise: {
@@ -32,9 +55,56 @@ export const _defaultRainParamsV2: RainParams = {
     }
 };
 
-export class RainGenerator extends BaseGenerator<RainParams> {
-    private time = 0;
-    private dropInterval = 0;
+const defaults = _defaultRainParamsV2;
+
+// How far ahead the noise bed is queued, in seconds
+const NOISE_AHEAD = 1;
+
+export const rainParamsSchemaV2: ParamSchema<RainParams> = {
+    const: {
+        main: {
+            volume: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.main.volume, description: "Output volume of the rain" },
+            eqGains: eqGainsSpec(10),
+        },
+        noise: {
+            level: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.noise.level, description: "Level of the background noise bed" },
+            type: { kind: "enum", values: noiseTypes, default: defaults.const.noise.type, description: "Color of the background noise" },
+        },
+        drops: {
+            dryLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.drops.dryLevel, description: "Level of the unprocessed drops" },
+            wetLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.drops.wetLevel, description: "Level of the drops sent to the reverb" },
+            rate: { kind: "number", min: 0.1, max: 500, unit: "drops/s", default: defaults.const.drops.rate, description: "Average number of drops per second" },
+            decayTime: { kind: "number", min: 0.005, max: 2, unit: "s", default: defaults.const.drops.decayTime, description: "Length of a single drop" },
+            q: { kind: "number", min: 0.0001, max: 100, unit: "Q", default: defaults.const.drops.q, description: "Resonance of the drop bandpass" },
+        },
+        surfaces: surfaceWeightsSchema,
+        dropModel: {
+            type: { kind: "enum", values: ["noise", "bubble"], default: defaults.const.dropModel!.type, description: "Filtered noise drops, or impact clicks with ringing bubbles" },
+            radius: { kind: "number", min: 0.1, max: 5, unit: "mm", default: defaults.const.dropModel!.radius, description: "Mean radius of a drop in the bubble model" },
+            radiusSpread: { kind: "number", min: 0, max: 1, unit: "", default: defaults.const.dropModel!.radiusSpread, description: "Relative width of the drop size distribution" },
+            distribution: { kind: "enum", values: ["uniform", "normal", "exponential"], default: defaults.const.dropModel!.distribution, description: "Shape of the drop size distribution" },
+            bubbleShare: { kind: "number", min: 0, max: 1, unit: "", default: defaults.const.dropModel!.bubbleShare, description: "Share of drops that trap a ringing bubble" },
+        },
+        timing: dropTimingSchema,
+        layers: dropLayersSchema,
+    },
+    osc: {
+        noise: {
+            filterFreq: { kind: "osc", min: 20, max: 20000, unit: "Hz", default: defaults.osc.noise.filterFreq, description: "Lowpass cutoff of the noise bed" },
+        },
+        drops: {
+            minPitch: { kind: "osc", min: 20, max: 20000, unit: "Hz", default: defaults.osc.drops.minPitch, description: "Lowest bandpass frequency of a drop" },
+            maxPitch: { kind: "osc", min: 20, max: 20000, unit: "Hz", default: defaults.osc.drops.maxPitch, description: "Highest bandpass frequency of a drop" },
+            reverbLevel: { kind: "osc", min: 0, max: 1, unit: "gain", default: defaults.osc.drops.reverbLevel, description: "Reverb return level" },
+            panRange: { kind: "osc", min: 0, max: 1, unit: "pan", default: defaults.osc.drops.panRange, description: "Stereo spread of the drops" },
+        },
+    },
+};
+
+export class RainGenerator extends BaseGenerator<RainParams, RainEvents> {
+    private dropStreams = new Map<string, { timer: DropTimer; nextIn: number; rate: number }>();
+    private dropEventInterval = 0.05;
+    private lastDropEventTime = -Infinity;
 
     private dropGainNode = this.ctx.createGain();
     private noiseGainNode = this.ctx.createGain();
@@ -44,44 +114,43 @@ export class RainGenerator extends BaseGenerator<RainParams> {
     private noiseFilter = this.ctx.createBiquadFilter();
     private noiseGain = this.ctx.createGain();
 
-    private noiseSource: AudioBufferSourceNode | null = null;
+    private noiseBed: NoiseBed | null = null;
+    private impactBuffer: AudioBuffer | null = null;
 
-    constructor(ctx: AudioContext, destination: AudioNode, initialParams: RainParams) {
-        super(ctx, destination, initialParams, true, [100, 300, 600, 1200, 2400, 4800]);
+    constructor(ctx: BaseAudioContext, destination: AudioNode, initialParams: RainParams, random: Random = Math.random) {
+        super(ctx, destination, initialParams, true, [100, 300, 600, 1200, 2400, 4800], random);
+        this.schema = rainParamsSchemaV2;
 
-        this.reverbNode.buffer = this.generateImpulseBuffer(2, 2.5);
+        this.reverbNode.buffer = createImpulseResponse(this.ctx, 2.5, 2, this.random);
         this.reverbNode.connect(this.gainNode);
 
         this.noiseFilter.type = "lowpass";
 
         this.dryDropGainNode.connect(this.dropGainNode);
-        this.wetDropGainNode.connect(this.dropGainNode);
+        this.wetDropGainNode.connect(this.reverbNode);
         this.dropGainNode.connect(this.gainNode);
         this.noiseGainNode.connect(this.gainNode);
     }
 
     start() {
-        this.noiseSource = this.ctx.createBufferSource();
-        this.noiseSource.buffer = this.createNoiseBuffer(this.params.const.noise.type);
-        this.noiseSource.loop = true;
+        this.noiseBed = createNoiseBed(this.ctx, this.params.const.noise.type, this.random);
+        this.noiseBed.fill(this.ctx.currentTime + NOISE_AHEAD);
 
         this.noiseFilter.frequency.value = this.params.osc.noise.filterFreq.value;
         this.noiseGain.gain.value = this.params.const.noise.level;
 
-        this.noiseSource.connect(this.noiseFilter);
+        this.noiseBed.output.connect(this.noiseFilter);
         this.noiseFilter.connect(this.noiseGainNode);
         this.noiseGainNode.gain.value = this.params.const.noise.level;
-
-        this.noiseSource.start();
     }
 
     stop() {
-        if (this.noiseSource) {
-            this.noiseSource.stop();
-            this.noiseSource.disconnect();
-            this.noiseSource = null;
+        if (this.noiseBed) {
+            this.noiseBed.stop();
+            this.noiseBed.output.disconnect();
+            this.noiseBed = null;
         }
-        this.dropInterval = 0;
+        this.dropStreams.clear();
     }
 
     destroy() {
@@ -92,14 +161,34 @@ export class RainGenerator extends BaseGenerator<RainParams> {
 
     tick(dt: number) {
         this.time += dt;
-        this.dropInterval += dt;
 
-        const timePerDrop = 1 / this.params.const.drops.rate;
+        // Drops are spread over the tick instead of landing on its start
+        const now = this.ctx.currentTime;
+        this.noiseBed?.fill(now + dt + NOISE_AHEAD);
+        const timing = this.params.const.timing ?? _defaultDropTiming;
+        const layers = this.layers();
+        Object.entries(layers).forEach(([name, layer]) => {
+            let stream = this.dropStreams.get(name);
+            if (!stream) {
+                const timer = new DropTimer(this.random);
+                stream = { timer, nextIn: timer.next(this.time, layer.rate, timing), rate: layer.rate };
+                this.dropStreams.set(name, stream);
+            }
+            // A gap drawn at the old rate would hold the stream back, so what's left of it is rescaled
+            if (stream.rate !== layer.rate) {
+                stream.nextIn *= stream.rate / layer.rate;
+                stream.rate = layer.rate;
+            }
 
-        while (this.dropInterval >= timePerDrop) {
-            this.dropInterval -= timePerDrop;
-            this.scheduleDrop();
-        }
+            stream.nextIn -= dt;
+            while (stream.nextIn <= 0) {
+                this.scheduleDrop(layer, now + dt + stream.nextIn);
+                stream.nextIn += stream.timer.next(this.time + stream.nextIn, layer.rate, timing);
+            }
+        });
+        this.dropStreams.forEach((_, name) => {
+            if (!layers[name]) this.dropStreams.delete(name);
+        });
 
         this.applyOsc(this.params.osc.drops.minPitch, ["osc", "drops", "minPitch"]);
         this.applyOsc(this.params.osc.drops.maxPitch, ["osc", "drops", "maxPitch"]);
@@ -109,15 +198,51 @@ export class RainGenerator extends BaseGenerator<RainParams> {
         this.noiseFilter.frequency.value = this.params.osc.noise.filterFreq.value;
     }
 
-    private scheduleDrop() {
-        const now = this.ctx.currentTime;
-        const duration = this.params.const.drops.decayTime;
+    /** Drops per second summed over the active layers. */
+    getDropRate(): number {
+        return Object.values(this.layers()).reduce((sum, layer) => sum + layer.rate, 0);
+    }
+
+    // Without named layers the drop params play as a single one
+    private layers(): Record<string, DropLayerParams> {
+        const layers = this.params.const.layers;
+        if (layers && Object.keys(layers).length > 0) return withLayerDefaults(layers);
+
+        const { drops } = this.params.const;
+        return {
+            main: {
+                level: drops.dryLevel,
+                reverbSend: drops.wetLevel,
+                rate: drops.rate,
+                minPitch: this.params.osc.drops.minPitch.value,
+                maxPitch: this.params.osc.drops.maxPitch.value,
+                decayTime: drops.decayTime,
+                q: drops.q,
+                panRange: this.params.osc.drops.panRange.value,
+                filterFreq: UNFILTERED,
+            },
+        };
+    }
+
+    private scheduleDrop(layer: DropLayerParams, now: number) {
+        const surfaces = this.params.const.surfaces;
+        const surface = surfaces ? pickSurface(surfaces, this.random) : null;
+        if (surface) {
+            this.scheduleSurfaceDrop(now, surface, layer);
+            return;
+        }
+        if (this.params.const.dropModel?.type === "bubble") {
+            this.scheduleBubbleDrop(now, layer);
+            return;
+        }
+
+        const duration = layer.decayTime;
         const bufferSize = Math.floor(this.ctx.sampleRate * duration);
         const noiseBuffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
         const data = noiseBuffer.getChannelData(0);
 
         for (let i = 0; i < bufferSize; i++) {
-            data[i] = Math.random() * 2 - 1;
+            data[i] = this.random() * 2 - 1;
         }
 
         const noise = this.ctx.createBufferSource();
@@ -129,85 +254,83 @@ export class RainGenerator extends BaseGenerator<RainParams> {
 
         const filter = this.ctx.createBiquadFilter();
         filter.type = "bandpass";
-        filter.frequency.value = this.randomBetween(
-            this.params.osc.drops.minPitch.value,
-            this.params.osc.drops.maxPitch.value
-        );
-        filter.Q.value = this.params.const.drops.q;
+        filter.frequency.value = this.randomBetween(layer.minPitch, layer.maxPitch);
+        filter.Q.value = layer.q;
 
-        const pan = this.ctx.createStereoPanner();
-        pan.pan.value = this.randomBetween(
-            -this.params.osc.drops.panRange.value,
-            this.params.osc.drops.panRange.value
-        );
+        const { pan, input } = this.createDropOutput(layer);
+        this.placeDrop(pan, now, filter.frequency.value, layer);
 
-        const dry = this.ctx.createGain();
-        dry.gain.value = this.params.const.drops.dryLevel;
+        noise.connect(env);
+        env.connect(filter);
+        filter.connect(input);
+
+        noise.start(now);
+        noise.stop(now + duration + 0.05);
+    }
+
+    private scheduleSurfaceDrop(now: number, surface: Surface, layer: DropLayerParams) {
+        this.impactBuffer ??= createNoiseBuffer(this.ctx, "white", this.random, 1);
+        const { pan, input } = this.createDropOutput(layer);
+        const pitch = scheduleSurfaceImpact(this.ctx, input, now, surface, this.impactBuffer, this.random);
+        this.placeDrop(pan, now, pitch, layer);
+    }
+
+    private scheduleBubbleDrop(now: number, layer: DropLayerParams) {
+        const { radius, radiusSpread, distribution, bubbleShare } = this.params.const.dropModel!;
+        this.impactBuffer ??= createNoiseBuffer(this.ctx, "white", this.random, 1);
+        const { pan, input } = this.createDropOutput(layer);
+        const dropRadius = sampleDropRadius(radius, radiusSpread, distribution, this.random);
+        const bubble = this.random() < bubbleShare;
+        const pitch = scheduleBubbleDrop(this.ctx, input, now, dropRadius, bubble, this.impactBuffer, this.random);
+        this.placeDrop(pan, now, pitch, layer);
+    }
 
+    // A panner feeding the dry and wet drop buses, behind the layer's lowpass if it has one
+    private createDropOutput(layer: DropLayerParams): { pan: StereoPannerNode; input: AudioNode } {
+        const pan = this.ctx.createStereoPanner();
+        const dry = this.ctx.createGain();
+        dry.gain.value = layer.level;
         const wet = this.ctx.createGain();
-        wet.gain.value = this.params.const.drops.wetLevel;
+        wet.gain.value = layer.reverbSend;
 
-        noise.connect(env);
-        env.connect(filter);
-        filter.connect(pan);
         pan.connect(dry);
         pan.connect(wet);
         dry.connect(this.dryDropGainNode);
         wet.connect(this.wetDropGainNode);
 
-        noise.start(now);
-        noise.stop(now + duration + 0.05);
+        if (layer.filterFreq >= UNFILTERED) return { pan, input: pan };
+        const lowpass = this.ctx.createBiquadFilter();
+        lowpass.type = "lowpass";
+        lowpass.frequency.value = layer.filterFreq;
+        lowpass.connect(pan);
+        return { pan, input: lowpass };
     }
 
-    private createNoiseBuffer(type: "white" | "pink"): AudioBuffer {
-        const length = this.ctx.sampleRate * 2;
-        const buffer = this.ctx.createBuffer(1, length, this.ctx.sampleRate);
-        const data = buffer.getChannelData(0);
-
-        if (type === "white") {
-            for (let i = 0; i < length; i++) data[i] = Math.random() * 2 - 1;
-        } else {
-            let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
-            for (let i = 0; i < length; i++) {
-                const white = Math.random() * 2 - 1;
-                b0 = 0.99886 * b0 + white * 0.0555179;
-                b1 = 0.99332 * b1 + white * 0.0750759;
-                b2 = 0.96900 * b2 + white * 0.1538520;
-                b3 = 0.86650 * b3 + white * 0.3104856;
-                b4 = 0.55000 * b4 + white * 0.5329522;
-                b5 = -0.7616 * b5 - white * 0.0168980;
-                const pink = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
-                b6 = white * 0.115926;
-                data[i] = pink * 0.11;
-            }
-        }
-
-        return buffer;
+    private placeDrop(pan: StereoPannerNode, time: number, pitch: number, layer: DropLayerParams) {
+        pan.pan.value = this.randomBetween(-layer.panRange, layer.panRange);
+        this.emitDrop(time, pitch, pan.pan.value);
     }
 
-    private generateImpulseBuffer(channels: number, duration: number): AudioBuffer {
-        const rate = this.ctx.sampleRate;
-        const length = rate * duration;
-        const buffer = this.ctx.createBuffer(channels, length, rate);
-
-        for (let c = 0; c < channels; c++) {
-            const data = buffer.getChannelData(c);
-            for (let i = 0; i < length; i++) {
-                data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 2);
-            }
-        }
+    /**
+     * Minimum time in seconds between two `drop` events. Drops in between
+     * still play, they just aren't reported.
+     */
+    setDropEventInterval(seconds: number) {
+        this.dropEventInterval = seconds;
+    }
 
-        return buffer;
+    private emitDrop(time: number, pitch: number, pan: number) {
+        if (time - this.lastDropEventTime < this.dropEventInterval || !this.hasListeners("drop")) return;
+        this.lastDropEventTime = time;
+        this.emit("drop", { time, pitch, pan });
     }
 
     private applyOsc(param: OscParam, path: string[]) {
         const modulated = param.value + Math.sin(this.time * param.freq * 2 * Math.PI) * param.amp;
+        if (modulated === param.value) return;
         let obj: any = this.params;
         for (let i = 0; i < path.length - 1; i++) obj = obj[path[i]];
         obj[path[path.length - 1]] = { ...param, value: modulated };
-    }
-
-    private randomBetween(min: number, max: number): number {
-        return min + Math.random() * (max - min);
+        this.notifyParamChange(path.join("."));
     }
 }
@@ -0,0 +1,210 @@
+import { BaseGenerator } from "./BaseGenerator";
+import { Random } from "../types/Random";
+import { createImpulseResponse } from "../functions/createImpulseResponse";
+import { createNoiseBuffer } from "../functions/createNoiseBuffer";
+import { scheduleBubble } from "../functions/scheduleBubble";
+import { eqGainsSpec } from "../functions/validateParams";
+import { ParamSchema } from "../types/ParamSchema";
+import { StreamParams } from "./types/StreamParams";
+import { noiseTypes } from "../functions/fillNoise";
+import { DeepPartial } from "./types/ParamPath";
+
+export const _defaultStreamParamsV2: StreamParams = {
+    const: {
+        main: {
+            volume: 0.5,
+            eqGains: new Array(6).fill(0),
+        },
+        bed: {
+            level: 0.3,
+            type: "pink",
+        },
+        bubbles: {
+            level: 0.3,
+        },
+        reverb: {
+            wetLevel: 0.2,
+        },
+    },
+    osc: {
+        flow: {
+            rate: { value: 60, osc: true, amp: 15, freq: 0.03 },
+            turbulence: { value: 0.4, osc: true, amp: 0.15, freq: 0.07 },
+        },
+        stream: {
+            size: { value: 0.4, osc: false, amp: 0.1, freq: 0.02 },
+            distance: { value: 0.3, osc: false, amp: 0.1, freq: 0.02 },
+        },
+    },
+};
+
+const defaults = _defaultStreamParamsV2;
+
+export const streamParamsSchemaV2: ParamSchema<StreamParams> = {
+    const: {
+        main: {
+            volume: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.main.volume, description: "Output volume of the stream" },
+            eqGains: eqGainsSpec(6),
+        },
+        bed: {
+            level: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.bed.level, description: "Level of the rushing noise bed" },
+            type: { kind: "enum", values: noiseTypes, default: defaults.const.bed.type, description: "Color of the noise bed" },
+        },
+        bubbles: {
+            level: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.bubbles.level, description: "Level of the babbling bubbles" },
+        },
+        reverb: {
+            wetLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.reverb.wetLevel, description: "Level sent to the reverb" },
+        },
+    },
+    osc: {
+        flow: {
+            rate: { kind: "osc", min: 0, max: 400, unit: "bubbles/s", default: defaults.osc.flow.rate, description: "Bubbles per second" },
+            turbulence: { kind: "osc", min: 0, max: 1, unit: "", default: defaults.osc.flow.turbulence, description: "Pitch spread and bunching of the bubbles" },
+        },
+        stream: {
+            size: { kind: "osc", min: 0, max: 1, unit: "", default: defaults.osc.stream.size, description: "From a trickle to a wide creek" },
+            distance: { kind: "osc", min: 0, max: 1, unit: "", default: defaults.osc.stream.distance, description: "Distance to the water; far streams are quieter and duller" },
+        },
+    },
+};
+
+export class StreamGenerator extends BaseGenerator<StreamParams> {
+    private running = false;
+    private nextBubbleIn = 0;
+
+    private bedSource: AudioBufferSourceNode | null = null;
+    private bedHighpass = this.ctx.createBiquadFilter();
+    private bedLowpass = this.ctx.createBiquadFilter();
+    private bedGain = this.ctx.createGain();
+    private bubbleLowpass = this.ctx.createBiquadFilter();
+    private bubbleGain = this.ctx.createGain();
+    private dryGain = this.ctx.createGain();
+    private wetGain = this.ctx.createGain();
+    private reverbNode = this.ctx.createConvolver();
+
+    constructor(ctx: BaseAudioContext, destination: AudioNode, initialParams: StreamParams, random: Random = Math.random) {
+        super(ctx, destination, initialParams, true, [100, 300, 600, 1200, 2400, 4800], random);
+        this.schema = streamParamsSchemaV2;
+
+        const input = this.eqNode[0] ?? this.gainNode;
+        this.reverbNode.buffer = createImpulseResponse(this.ctx, 2, 2.5, this.random);
+        this.dryGain.connect(input);
+        this.wetGain.connect(this.reverbNode);
+        this.reverbNode.connect(input);
+
+        this.bedHighpass.type = "highpass";
+        this.bedHighpass.frequency.value = 200;
+        this.bedLowpass.type = "lowpass";
+        this.bedHighpass.connect(this.bedLowpass).connect(this.bedGain).connect(this.dryGain);
+
+        this.bubbleLowpass.type = "lowpass";
+        this.bubbleGain.connect(this.bubbleLowpass);
+        this.bubbleLowpass.connect(this.dryGain);
+        this.bubbleLowpass.connect(this.wetGain);
+
+        this.applyParams();
+    }
+
+    start() {
+        if (this.running) return;
+        this.running = true;
+
+        this.bedSource = this.ctx.createBufferSource();
+        this.bedSource.buffer = createNoiseBuffer(this.ctx, this.params.const.bed.type, this.random, 4);
+        this.bedSource.loop = true;
+        this.bedSource.connect(this.bedHighpass);
+        this.bedSource.start();
+
+        this.nextBubbleIn = 0;
+    }
+
+    stop() {
+        this.running = false;
+        if (this.bedSource) {
+            this.bedSource.stop();
+            this.bedSource.disconnect();
+            this.bedSource = null;
+        }
+    }
+
+    destroy() {
+        this.stop();
+        [this.bedHighpass, this.bedLowpass, this.bedGain, this.bubbleGain, this.bubbleLowpass,
+            this.dryGain, this.wetGain, this.reverbNode].forEach(node => node.disconnect());
+    }
+
+    updateParams(newParams: DeepPartial<StreamParams>): void {
+        const type = this.params.const.bed.type;
+        super.updateParams(newParams);
+        this.applyParams();
+
+        if (this.running && this.params.const.bed.type !== type) {
+            this.stop();
+            this.start();
+        }
+    }
+
+    tick(dt: number) {
+        if (!this.running) return;
+        this.time += dt;
+        this.applyParams();
+
+        // Bubbles are spread over the tick instead of landing on its start
+        const now = this.ctx.currentTime;
+        this.nextBubbleIn -= dt;
+        while (this.nextBubbleIn <= 0) {
+            this.scheduleBubbleAt(now + dt + this.nextBubbleIn);
+            this.nextBubbleIn += this.bubbleInterval();
+        }
+    }
+
+    // Levels and filters follow size and distance, including their oscillation
+    private applyParams() {
+        const { main, bed, bubbles, reverb } = this.params.const;
+        const size = this.clamp01(this.oscValue(this.params.osc.stream.size));
+        const distance = this.clamp01(this.oscValue(this.params.osc.stream.distance));
+        const near = 1 - distance * 0.7;
+
+        this.gainNode.gain.value = main.volume;
+        this.eqNode.forEach((band, i) => {
+            band.gain.value = main.eqGains[i] ?? 0;
+        });
+
+        this.bedGain.gain.value = bed.level * (0.3 + 0.7 * size) * near;
+        this.bedLowpass.frequency.value = (800 + 3000 * (1 - distance)) * (1.5 - 0.5 * size);
+        this.bubbleGain.gain.value = bubbles.level * near;
+        this.bubbleLowpass.frequency.value = 2000 + 12000 * (1 - distance) ** 2;
+        this.wetGain.gain.value = reverb.wetLevel * (0.5 + distance);
+    }
+
+    private scheduleBubbleAt(time: number) {
+        const size = this.clamp01(this.oscValue(this.params.osc.stream.size));
+        const turbulence = this.clamp01(this.oscValue(this.params.osc.flow.turbulence));
+
+        // Bigger streams carry bigger, lower bubbles; turbulence widens the spread
+        const base = 2000 - 1400 * size;
+        const freq = base * Math.pow(2, (this.random() * 2 - 1) * (0.5 + turbulence));
+        const decay = Math.min(0.04, 0.004 + 15 / freq);
+
+        const panner = this.ctx.createStereoPanner();
+        panner.pan.value = (this.random() * 2 - 1) * 0.8;
+        panner.connect(this.bubbleGain);
+
+        scheduleBubble(this.ctx, panner, time, {
+            freq,
+            decay,
+            rise: 0.1 + this.random() * 0.4 * (1 + turbulence),
+            amp: Math.pow(this.random(), 2) * 0.5,
+        });
+    }
+
+    // Turbulent water bunches bubbles together: gaps are drawn from a rate that jumps around
+    private bubbleInterval(): number {
+        const rate = Math.max(0, this.oscValue(this.params.osc.flow.rate));
+        if (rate === 0) return 0.25;
+        const turbulence = this.clamp01(this.oscValue(this.params.osc.flow.turbulence));
+        const burst = 1 + turbulence * (this.random() * 4 - 1);
+        return -Math.log(1 - this.random()) / (rate * Math.max(0.2, burst));
+    }
+}
@@ -1,7 +1,16 @@
 import { BaseGenerator } from "./BaseGenerator";
-import { ThunderParams, RandParam } from "./types/ThunderParams";
+import { Random } from "../types/Random";
+import { createImpulseResponse } from "../functions/createImpulseResponse";
+import { createCrackleBuffer } from "../functions/createCrackleBuffer";
+import { createNWaveThunderBuffer } from "../functions/generateNWaveThunder";
+import { _defaultThunderTypeWeights, applyThunderType, pickThunderType } from "../functions/thunderTypes";
+import { ParamSchema } from "../types/ParamSchema";
+import { thunderParamsSchema } from "../ThunderGenerator";
+import { ThunderEvents } from "../types/NoiseDEvents";
+import { ThunderParams } from "./types/ThunderParams";
 
 export const _defaultThunderParamsV2: ThunderParams = {
+    model: "classic",
     volume: {
         value: 0.5,
         rand: false,
@@ -82,29 +91,70 @@ export const _defaultThunderParamsV2: ThunderParams = {
         value: 8,
         rand: false,
         dist: 2
-    }
+    },
+    distance: {
+        value: 2000,
+        rand: false,
+        dist: 1000
+    },
+    channelLength: {
+        value: 3000,
+        rand: false,
+        dist: 1000
+    },
+    tortuosity: {
+        value: 0.4,
+        rand: false,
+        dist: 0.2
+    },
+    orientation: {
+        value: 70,
+        rand: false,
+        dist: 20
+    },
+    thunderTypes: { ..._defaultThunderTypeWeights }
 }
 
-export class ThunderGenerator extends BaseGenerator<ThunderParams> {
+export const thunderParamsSchemaV2: ParamSchema<ThunderParams> = {
+    ...thunderParamsSchema,
+    delayBetweenThunders: {
+        kind: "range",
+        min: 0,
+        max: 600000,
+        unit: "ms",
+        default: _defaultThunderParamsV2.delayBetweenThunders,
+        description: "Random wait between two thunders",
+    },
+};
+
+export class ThunderGenerator extends BaseGenerator<ThunderParams, ThunderEvents> {
     private thunderTimer = 0;
+    private nextThunderIn = 0;
+    private running = false;
+    private leadTime = 0;
     private reverbNode: ConvolverNode;
 
     constructor(
-        ctx: AudioContext,
+        ctx: BaseAudioContext,
         destination: AudioNode,
-        initialParams: ThunderParams
+        initialParams: ThunderParams,
+        random: Random = Math.random
     ) {
-        super(ctx, destination, initialParams, true, [100, 300, 600, 1200, 2400, 4800]);
+        super(ctx, destination, initialParams, true, [100, 300, 600, 1200, 2400, 4800], random);
+        this.schema = thunderParamsSchemaV2;
         this.reverbNode = this.ctx.createConvolver();
-        this.reverbNode.buffer = this.generateImpulseBuffer(2, 3); // stereo, 3s
+        this.reverbNode.buffer = createImpulseResponse(this.ctx, 3, 2, this.random); // stereo, 3s
         this.reverbNode.connect(this.gainNode); // into local EQ + gain chain
     }
 
     start() {
+        this.running = true;
         this.thunderTimer = 0; // start clean
+        this.nextThunderIn = this.nextDelay();
     }
 
     stop() {
+        this.running = false;
         this.thunderTimer = 0;
     }
 
@@ -113,52 +163,63 @@ export class ThunderGenerator extends BaseGenerator<ThunderParams> {
     }
 
     tick(dt: number) {
+        if (!this.running) return;
         this.thunderTimer += dt;
 
-        const delay = this.randomBetween(
-            this.params.delayBetweenThunders.min,
-            this.params.delayBetweenThunders.max
-        );
-
-        if (this.thunderTimer >= delay) {
-            this.thunderTimer -= delay;
+        if (this.thunderTimer >= this.nextThunderIn) {
+            this.thunderTimer -= this.nextThunderIn;
+            this.nextThunderIn = this.nextDelay();
             this.triggerThunder();
         }
     }
 
-    private generateImpulseBuffer(channels: number, duration: number): AudioBuffer {
-        const rate = this.ctx.sampleRate;
-        const length = rate * duration;
-        const buffer = this.ctx.createBuffer(channels, length, rate);
-
-        for (let c = 0; c < channels; c++) {
-            const data = buffer.getChannelData(c);
-            for (let i = 0; i < length; i++) {
-                data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 2);
-            }
-        }
+    /** Seconds until the next thunder; `delayBetweenThunders` is in milliseconds. */
+    private nextDelay(): number {
+        return this.randomBetween(
+            this.params.delayBetweenThunders.min,
+            this.params.delayBetweenThunders.max
+        ) / 1000;
+    }
 
-        return buffer;
+    /**
+     * Schedules every thunder `seconds` after its `thunderScheduled` event, so
+     * visuals such as a lightning flash can run ahead of the sound.
+     */
+    setLeadTime(seconds: number) {
+        this.leadTime = Math.max(0, seconds);
     }
 
+    // Starts a thunder `delayMs` plus the lead time from now, like the V1 generator
     private triggerThunder() {
-        const count = this.rand(this.params.burstCount);
+        const start = this.ctx.currentTime + (this.params.delayMs ?? 0) / 1000 + this.leadTime;
+        const types = this.params.thunderTypes;
+        const type = types ? pickThunderType(types, this.random) : null;
+        const params = type ? applyThunderType(this.params, type, _defaultThunderParamsV2, thunderParamsSchemaV2) : this.params;
+        const count = this.rand(params.burstCount);
+        this.emit("thunderScheduled", { time: start, leadTime: start - this.ctx.currentTime, type: type ?? undefined });
+
+        if (params.model === "nwave") {
+            this.scheduleNWave(params, start);
+            return;
+        }
+
+        this.scheduleRumble(params, start);
 
         for (let i = 0; i < count; i++) {
-            const delay = i * 0.1 + Math.random() * 0.05; // jitter between bursts
-            this.scheduleBurst(this.ctx.currentTime + delay);
+            const delay = i * 0.1 + this.random() * 0.05; // jitter between bursts
+            this.scheduleBurst(params, start + delay, i);
         }
 
-        this.scheduleRumble(this.ctx.currentTime);
-        this.scheduleCrackle(this.ctx.currentTime);
+        this.scheduleCrackle(params, start);
     }
 
-    private scheduleBurst(time: number) {
-        const volume = this.rand(this.params.volume);
-        const duration = this.rand(this.params.duration);
-        const freq = this.rand(this.params.filterFreq);
-        const pan = this.randomBetween(-this.params.panRange.value, this.params.panRange.value);
-        const subLevel = this.rand(this.params.subLevel);
+    private scheduleBurst(params: ThunderParams, time: number, index: number) {
+        const volume = this.rand(params.volume);
+        const duration = this.rand(params.duration);
+        const freq = this.rand(params.filterFreq);
+        const pan = this.randomBetween(-params.panRange.value, params.panRange.value);
+        const subLevel = this.rand(params.subLevel);
+        this.emit("burst", { time, volume, pan, index });
 
         const osc = this.ctx.createOscillator();
         osc.type = "triangle";
@@ -176,7 +237,7 @@ export class ThunderGenerator extends BaseGenerator<ThunderParams> {
 
         subOsc.type = "sine";
         subOsc.frequency.setValueAtTime(50, time); // fixed sub freq, or make param later
-        subGain.gain.setValueAtTime(this.rand(this.params.subLevel), time);
+        subGain.gain.setValueAtTime(this.rand(params.subLevel), time);
         subGain.gain.exponentialRampToValueAtTime(0.001, time + duration);
 
         subOsc.connect(subGain);
@@ -186,7 +247,7 @@ export class ThunderGenerator extends BaseGenerator<ThunderParams> {
         subOsc.stop(time + duration + 0.1);
 
         const wet = this.ctx.createGain();
-        wet.gain.setValueAtTime(this.rand(this.params.reverbWetLevel), time);
+        wet.gain.setValueAtTime(this.rand(params.reverbWetLevel), time);
 
         osc.connect(gain);
         gain.connect(panner);
@@ -204,11 +265,53 @@ export class ThunderGenerator extends BaseGenerator<ThunderParams> {
         // TODO: sub-bass, reverb, crackle, highpass, etc.
     }
 
-    private scheduleRumble(time: number) {
-        const freqStart = this.rand(this.params.rumbleFreqStart);
-        const freqEnd = this.rand(this.params.rumbleFreqEnd);
-        const decay = this.rand(this.params.rumbleDecay);
-        const volume = this.rand(this.params.rumbleVolume);
+    private scheduleNWave(params: ThunderParams, time: number) {
+        const volume = this.rand(params.volume);
+        const panRange = this.rand(params.panRange);
+
+        // Scenes saved before the n-wave model have no channel params
+        const defaults = _defaultThunderParamsV2;
+        const source = this.ctx.createBufferSource();
+        source.buffer = createNWaveThunderBuffer(this.ctx, {
+            distance: this.rand(params.distance ?? defaults.distance!),
+            length: this.rand(params.channelLength ?? defaults.channelLength!),
+            tortuosity: this.rand(params.tortuosity ?? defaults.tortuosity!),
+            orientation: this.rand(params.orientation ?? defaults.orientation!),
+        }, panRange, this.random, {
+            strokes: this.rand(params.burstCount),
+            filterFreq: this.rand(params.filterFreq),
+            decay: this.rand(params.duration),
+        });
+
+        const highpass = this.ctx.createBiquadFilter();
+        highpass.type = "highpass";
+        highpass.frequency.value = this.rand(params.highPassFreq);
+
+        const gain = this.ctx.createGain();
+        gain.gain.value = volume;
+
+        const wet = this.ctx.createGain();
+        wet.gain.value = this.rand(params.reverbWetLevel);
+
+        source.connect(highpass);
+        highpass.connect(gain);
+
+        // Dry path
+        gain.connect(this.gainNode);
+
+        // Wet path
+        gain.connect(wet);
+        wet.connect(this.reverbNode);
+
+        this.emit("thunderStart", { time, volume, pan: 0 });
+        source.start(time);
+    }
+
+    private scheduleRumble(params: ThunderParams, time: number) {
+        const freqStart = this.rand(params.rumbleFreqStart);
+        const freqEnd = this.rand(params.rumbleFreqEnd);
+        const decay = this.rand(params.rumbleDecay);
+        const volume = this.rand(params.rumbleVolume);
 
         const osc = this.ctx.createOscillator();
         const gain = this.ctx.createGain();
@@ -222,9 +325,10 @@ export class ThunderGenerator extends BaseGenerator<ThunderParams> {
         gain.gain.exponentialRampToValueAtTime(0.001, time + decay);
 
         pan.pan.value = this.randomBetween(
-            -this.params.panRange.value,
-            this.params.panRange.value
+            -params.panRange.value,
+            params.panRange.value
         );
+        this.emit("thunderStart", { time, volume, pan: pan.pan.value });
 
         osc.connect(gain);
         gain.connect(pan);
@@ -234,7 +338,7 @@ export class ThunderGenerator extends BaseGenerator<ThunderParams> {
 
         // Wet path
         const wet = this.ctx.createGain();
-        wet.gain.setValueAtTime(this.rand(this.params.reverbWetLevel), time);
+        wet.gain.setValueAtTime(this.rand(params.reverbWetLevel), time);
         pan.connect(wet);
         wet.connect(this.reverbNode);
 
@@ -242,21 +346,21 @@ export class ThunderGenerator extends BaseGenerator<ThunderParams> {
         osc.stop(time + decay + 0.1);
     }
 
-    private scheduleCrackle(time: number) {
-        const count = Math.floor(this.rand(this.params.crackleAmount));
+    private scheduleCrackle(params: ThunderParams, time: number) {
+        const count = Math.floor(this.rand(params.crackleAmount));
 
         for (let i = 0; i < count; i++) {
-            const crackleTime = time + Math.random() * 0.6; // within first ~0.6s
-            this.scheduleCracklePop(crackleTime);
+            const crackleTime = time + this.random() * 0.6; // within first ~0.6s
+            this.scheduleCracklePop(params, crackleTime);
         }
     }
 
-    private scheduleCracklePop(time: number) {
-        const duration = 0.02 + Math.random() * 0.03; // 20–50ms pop
-        const pan = this.randomBetween(-this.params.panRange.value, this.params.panRange.value);
-        const volume = 0.1 + Math.random() * 0.2;
+    private scheduleCracklePop(params: ThunderParams, time: number) {
+        const duration = 0.02 + this.random() * 0.03; // 20–50ms pop
+        const pan = this.randomBetween(-params.panRange.value, params.panRange.value);
+        const volume = 0.1 + this.random() * 0.2;
 
-        const buffer = this.createCrackleBuffer(duration);
+        const buffer = createCrackleBuffer(this.ctx, duration, this.random);
         const source = this.ctx.createBufferSource();
         source.buffer = buffer;
 
@@ -273,32 +377,10 @@ export class ThunderGenerator extends BaseGenerator<ThunderParams> {
         panner.connect(this.gainNode);
 
         const wet = this.ctx.createGain();
-        wet.gain.setValueAtTime(this.rand(this.params.reverbWetLevel), time);
+        wet.gain.setValueAtTime(this.rand(params.reverbWetLevel), time);
         panner.connect(wet);
         wet.connect(this.reverbNode);
 
         source.start(time);
     }
-
-    private createCrackleBuffer(duration: number): AudioBuffer {
-        const length = Math.floor(this.ctx.sampleRate * duration);
-        const buffer = this.ctx.createBuffer(1, length, this.ctx.sampleRate);
-        const data = buffer.getChannelData(0);
-
-        for (let i = 0; i < length; i++) {
-            // Sparse noisy clicks
-            data[i] = Math.random() > 0.7 ? Math.random() * 2 - 1 : 0;
-        }
-
-        return buffer;
-    }
-
-    private rand(param: RandParam): number {
-        const { value, rand, dist } = param;
-        return rand ? this.randomBetween(value - dist, value + dist) : value;
-    }
-
-    private randomBetween(min: number, max: number): number {
-        return min + Math.random() * (max - min);
-    }
 }
@@ -0,0 +1,218 @@
+import { BaseGenerator } from "./BaseGenerator";
+import { Random } from "../types/Random";
+import { createNoiseBuffer } from "../functions/createNoiseBuffer";
+import { eqGainsSpec } from "../functions/validateParams";
+import { ParamSchema } from "../types/ParamSchema";
+import { TrafficParams } from "./types/TrafficParams";
+import { DeepPartial } from "./types/ParamPath";
+
+export const _defaultTrafficParamsV2: TrafficParams = {
+    const: {
+        main: {
+            volume: 0.5,
+            eqGains: new Array(6).fill(0),
+        },
+        cars: {
+            hissLevel: 0.5,
+            engineLevel: 0.15,
+        },
+        bed: {
+            level: 0.2,
+        },
+    },
+    rand: {
+        cars: {
+            density: { value: 6, rand: true, dist: 3 },
+            speed: { value: 50, rand: true, dist: 15 },
+            distance: { value: 8, rand: true, dist: 5 },
+        },
+    },
+};
+
+const defaults = _defaultTrafficParamsV2;
+
+export const trafficParamsSchemaV2: ParamSchema<TrafficParams> = {
+    const: {
+        main: {
+            volume: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.main.volume, description: "Output volume of the traffic" },
+            eqGains: eqGainsSpec(6),
+        },
+        cars: {
+            hissLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.cars.hissLevel, description: "Level of the tyre hiss on the wet road" },
+            engineLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.cars.engineLevel, description: "Level of the engine tone" },
+        },
+        bed: {
+            level: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.bed.level, description: "Level of the distant traffic rumble" },
+        },
+    },
+    rand: {
+        cars: {
+            density: { kind: "rand", min: 0, max: 120, unit: "cars/min", default: defaults.rand.cars.density, description: "Cars passing per minute" },
+            speed: { kind: "rand", min: 5, max: 200, unit: "km/h", default: defaults.rand.cars.speed, description: "Speed of a passing car" },
+            distance: { kind: "rand", min: 1, max: 200, unit: "m", default: defaults.rand.cars.distance, description: "Closest distance of a passing car" },
+        },
+    },
+};
+
+const SPEED_OF_SOUND = 343;
+const CURVE_POINTS = 128;
+// How often the distant rumble drifts, in seconds
+const BED_PERIOD = 1.5;
+
+export class TrafficGenerator extends BaseGenerator<TrafficParams> {
+    private running = false;
+    private nextCarIn = 0;
+    private bedTimer = 0;
+
+    private noiseBuffer: AudioBuffer;
+    private bedSource: AudioBufferSourceNode | null = null;
+    private bedFilter = this.ctx.createBiquadFilter();
+    private bedGain = this.ctx.createGain();
+
+    constructor(ctx: BaseAudioContext, destination: AudioNode, initialParams: TrafficParams, random: Random = Math.random) {
+        super(ctx, destination, initialParams, true, [100, 300, 600, 1200, 2400, 4800], random);
+        this.schema = trafficParamsSchemaV2;
+
+        this.noiseBuffer = createNoiseBuffer(this.ctx, "pink", this.random, 4);
+
+        this.bedFilter.type = "lowpass";
+        this.bedFilter.frequency.value = 300;
+        this.bedGain.gain.value = 0;
+        this.bedFilter.connect(this.bedGain).connect(this.input());
+        this.applyParams();
+    }
+
+    start() {
+        if (this.running) return;
+        this.running = true;
+
+        this.bedSource = this.ctx.createBufferSource();
+        this.bedSource.buffer = this.noiseBuffer;
+        this.bedSource.loop = true;
+        this.bedSource.connect(this.bedFilter);
+        this.bedSource.start();
+
+        this.bedTimer = BED_PERIOD;
+        this.nextCarIn = this.carInterval() * this.random();
+    }
+
+    stop() {
+        this.running = false;
+        if (this.bedSource) {
+            this.bedSource.stop();
+            this.bedSource.disconnect();
+            this.bedSource = null;
+        }
+        this.bedGain.gain.cancelScheduledValues(this.ctx.currentTime);
+        this.bedGain.gain.value = 0;
+    }
+
+    destroy() {
+        this.stop();
+        this.bedFilter.disconnect();
+        this.bedGain.disconnect();
+    }
+
+    updateParams(newParams: DeepPartial<TrafficParams>): void {
+        super.updateParams(newParams);
+        this.applyParams();
+    }
+
+    tick(dt: number) {
+        if (!this.running) return;
+        const now = this.ctx.currentTime;
+
+        this.bedTimer += dt;
+        if (this.bedTimer >= BED_PERIOD) {
+            this.bedTimer -= BED_PERIOD;
+            const drift = 0.7 + this.random() * 0.6;
+            this.bedGain.gain.setTargetAtTime(this.params.const.bed.level * drift, now, BED_PERIOD / 2);
+        }
+
+        this.nextCarIn -= dt;
+        if (this.nextCarIn <= 0) {
+            this.scheduleCar(now + dt + this.nextCarIn);
+            this.nextCarIn = this.carInterval();
+        }
+    }
+
+    private input(): AudioNode {
+        return this.eqNode[0] ?? this.gainNode;
+    }
+
+    private applyParams() {
+        const { main } = this.params.const;
+        this.gainNode.gain.value = main.volume;
+        this.eqNode.forEach((band, i) => {
+            band.gain.value = main.eqGains[i] ?? 0;
+        });
+    }
+
+    /**
+     * One car driving past on a straight road. Level, pan, hiss brightness and
+     * the Doppler shift of the engine all follow the car's position, from
+     * `length` meters away on one side to `length` meters on the other.
+     */
+    private scheduleCar(time: number) {
+        const speed = Math.max(5, this.rand(this.params.rand.cars.speed)) / 3.6;
+        const distance = Math.max(1, this.rand(this.params.rand.cars.distance));
+        const direction = this.random() < 0.5 ? -1 : 1;
+        const length = 30 + distance * 3;
+        const duration = (2 * length) / speed;
+        const attenuation = Math.min(1, 5 / distance);
+
+        const gainCurve = new Float32Array(CURVE_POINTS);
+        const panCurve = new Float32Array(CURVE_POINTS);
+        const cutoffCurve = new Float32Array(CURVE_POINTS);
+        const dopplerCurve = new Float32Array(CURVE_POINTS);
+        for (let i = 0; i < CURVE_POINTS; i++) {
+            const x = -length + (2 * length * i) / (CURVE_POINTS - 1);
+            const r = Math.hypot(distance, x);
+            gainCurve[i] = (distance / r) * attenuation;
+            panCurve[i] = direction * (x / r) * 0.9;
+            cutoffCurve[i] = 500 + 5500 * (distance / r);
+            dopplerCurve[i] = SPEED_OF_SOUND / (SPEED_OF_SOUND + speed * (x / r));
+        }
+
+        const pan = this.ctx.createStereoPanner();
+        pan.pan.setValueCurveAtTime(panCurve, time, duration);
+        pan.connect(this.input());
+
+        // Tyre hiss on the wet asphalt
+        const hiss = this.ctx.createBufferSource();
+        hiss.buffer = this.noiseBuffer;
+        hiss.loop = true;
+        const hissFilter = this.ctx.createBiquadFilter();
+        hissFilter.type = "bandpass";
+        hissFilter.Q.value = 0.7;
+        hissFilter.frequency.setValueCurveAtTime(cutoffCurve, time, duration);
+        const hissGain = this.ctx.createGain();
+        hissGain.gain.value = 0;
+        hissGain.gain.setValueCurveAtTime(gainCurve.map(g => g * this.params.const.cars.hissLevel), time, duration);
+        hiss.connect(hissFilter).connect(hissGain).connect(pan);
+
+        // Engine tone, shifted by the Doppler effect
+        const engine = this.ctx.createOscillator();
+        engine.type = "sawtooth";
+        const engineFreq = this.randomBetween(40, 90) * (0.7 + speed / 30);
+        engine.frequency.setValueCurveAtTime(dopplerCurve.map(d => d * engineFreq), time, duration);
+        const engineFilter = this.ctx.createBiquadFilter();
+        engineFilter.type = "lowpass";
+        engineFilter.frequency.value = 400;
+        const engineGain = this.ctx.createGain();
+        engineGain.gain.value = 0;
+        engineGain.gain.setValueCurveAtTime(gainCurve.map(g => g * this.params.const.cars.engineLevel * 0.3), time, duration);
+        engine.connect(engineFilter).connect(engineGain).connect(pan);
+
+        hiss.start(time, this.random() * this.noiseBuffer.duration);
+        engine.start(time);
+        hiss.stop(time + duration + 0.05);
+        engine.stop(time + duration + 0.05);
+    }
+
+    // Cars arrive independently of each other, so the gaps are exponential
+    private carInterval(): number {
+        const perMinute = Math.max(0, this.rand(this.params.rand.cars.density));
+        return perMinute > 0 ? -Math.log(1 - this.random()) * 60 / perMinute : 10;
+    }
+}
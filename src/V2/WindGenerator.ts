@@ -0,0 +1,203 @@
+import { BaseGenerator } from "./BaseGenerator";
+import { Random } from "../types/Random";
+import { eqGainsSpec } from "../functions/validateParams";
+import { createWindVoice, WindVoice } from "../functions/createWindVoice";
+import { scheduleGust } from "../functions/scheduleGust";
+import { ParamSchema } from "../types/ParamSchema";
+import { WindParams } from "./types/WindParams";
+import { noiseTypes } from "../functions/fillNoise";
+import { DeepPartial } from "./types/ParamPath";
+
+export const _defaultWindParamsV2: WindParams = {
+    const: {
+        main: {
+            volume: 0.5,
+            eqGains: new Array(6).fill(0),
+        },
+        noise: {
+            type: "pink",
+            baseLevel: 0.3,
+            gustLevel: 0.5,
+            filterQ: 0.7,
+        },
+        whistle: {
+            level: 0.15,
+            count: 2,
+            q: 25,
+            bend: 0.6,
+        },
+    },
+    osc: {
+        noise: {
+            filterFreq: { value: 600, osc: false, amp: 200, freq: 0.05 },
+        },
+        stereo: {
+            pan: { value: 0, osc: true, amp: 0.6, freq: 0.05 },
+        },
+    },
+    rand: {
+        gusts: {
+            interval: { value: 6, rand: true, dist: 4 },
+            duration: { value: 3, rand: true, dist: 1.5 },
+            strength: { value: 0.6, rand: true, dist: 0.4 },
+        },
+        whistle: {
+            freq: { value: 900, rand: true, dist: 500 },
+        },
+    },
+};
+
+const defaults = _defaultWindParamsV2;
+
+export const windParamsSchemaV2: ParamSchema<WindParams> = {
+    const: {
+        main: {
+            volume: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.main.volume, description: "Output volume of the wind" },
+            eqGains: eqGainsSpec(6),
+        },
+        noise: {
+            type: { kind: "enum", values: noiseTypes, default: defaults.const.noise.type, description: "Color of the wind noise" },
+            baseLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.noise.baseLevel, description: "Level of the wind between gusts" },
+            gustLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.noise.gustLevel, description: "Level added at the peak of a full gust" },
+            filterQ: { kind: "number", min: 0.0001, max: 20, unit: "Q", default: defaults.const.noise.filterQ, description: "Resonance of the wind lowpass" },
+        },
+        whistle: {
+            level: { kind: "number", min: 0, max: 1, unit: "gain", default: defaults.const.whistle.level, description: "Level of the whistles at full gust" },
+            count: { kind: "number", min: 0, max: 8, unit: "", integer: true, default: defaults.const.whistle.count, description: "Number of resonant whistle tones" },
+            q: { kind: "number", min: 1, max: 200, unit: "Q", default: defaults.const.whistle.q, description: "Resonance of the whistles" },
+            bend: { kind: "number", min: 0, max: 4, unit: "ratio", default: defaults.const.whistle.bend, description: "Pitch rise of the whistles at full gust" },
+        },
+    },
+    osc: {
+        noise: {
+            filterFreq: { kind: "osc", min: 20, max: 20000, unit: "Hz", default: defaults.osc.noise.filterFreq, description: "Lowpass cutoff between gusts; a full gust doubles it" },
+        },
+        stereo: {
+            pan: { kind: "osc", min: -1, max: 1, unit: "pan", default: defaults.osc.stereo.pan, description: "Stereo position; oscillation sweeps the wind across" },
+        },
+    },
+    rand: {
+        gusts: {
+            interval: { kind: "rand", min: 0.1, max: 120, unit: "s", default: defaults.rand.gusts.interval, description: "Time between the starts of two gusts" },
+            duration: { kind: "rand", min: 0.1, max: 60, unit: "s", default: defaults.rand.gusts.duration, description: "Length of a gust" },
+            strength: { kind: "rand", min: 0, max: 1, unit: "", default: defaults.rand.gusts.strength, description: "Peak of a gust, 1 being a full gust" },
+        },
+        whistle: {
+            freq: { kind: "rand", min: 100, max: 8000, unit: "Hz", default: defaults.rand.whistle.freq, description: "Pitch of a whistle between gusts" },
+        },
+    },
+};
+
+export class WindGenerator extends BaseGenerator<WindParams> {
+    private gustTimer = 0;
+    private nextGustIn = 0;
+    private running = false;
+    private voice: WindVoice | null = null;
+    private panner = this.ctx.createStereoPanner();
+
+    constructor(ctx: BaseAudioContext, destination: AudioNode, initialParams: WindParams, random: Random = Math.random) {
+        super(ctx, destination, initialParams, true, [100, 300, 600, 1200, 2400, 4800], random);
+        this.schema = windParamsSchemaV2;
+
+        this.panner.connect(this.eqNode[0] ?? this.gainNode);
+        this.applyMain();
+    }
+
+    start() {
+        if (this.running) return;
+        this.running = true;
+        this.startVoice();
+
+        // The first gust comes at a random point of the first interval
+        this.gustTimer = 0;
+        this.nextGustIn = Math.max(0.1, this.rand(this.params.rand.gusts.interval)) * this.random();
+    }
+
+    stop() {
+        this.running = false;
+        this.voice?.stop();
+        this.voice = null;
+    }
+
+    destroy() {
+        this.stop();
+        this.panner.disconnect();
+    }
+
+    updateParams(newParams: DeepPartial<WindParams>): void {
+        const before = this.voiceOptionsKey();
+        super.updateParams(newParams);
+        this.applyMain();
+
+        if (this.voice && this.voiceOptionsKey() !== before) {
+            this.voice.stop();
+            this.startVoice();
+        } else {
+            this.applyLevels();
+        }
+    }
+
+    tick(dt: number) {
+        if (!this.running) return;
+        this.time += dt;
+        this.gustTimer += dt;
+
+        if (this.gustTimer >= this.nextGustIn) {
+            this.gustTimer -= this.nextGustIn;
+            this.nextGustIn = Math.max(0.1, this.rand(this.params.rand.gusts.interval));
+            this.playGust(this.ctx.currentTime);
+        }
+
+        if (this.voice) this.voice.filter.frequency.value = this.oscValue(this.params.osc.noise.filterFreq);
+        this.panner.pan.value = Math.max(-1, Math.min(1, this.oscValue(this.params.osc.stereo.pan)));
+    }
+
+    private startVoice() {
+        const { noise, whistle } = this.params.const;
+        const whistleFreqs = Array.from(
+            { length: whistle.count },
+            () => Math.max(20, this.rand(this.params.rand.whistle.freq))
+        );
+
+        this.voice = createWindVoice(this.ctx, this.panner, {
+            noiseType: noise.type,
+            filterQ: noise.filterQ,
+            whistleFreqs,
+            whistleQ: whistle.q,
+            whistleBend: whistle.bend,
+        }, this.random);
+
+        this.applyLevels();
+        this.voice.filter.frequency.value = this.oscValue(this.params.osc.noise.filterFreq);
+        this.voice.start();
+    }
+
+    private applyMain() {
+        this.gainNode.gain.value = this.params.const.main.volume;
+        this.eqNode.forEach((band, i) => {
+            band.gain.value = this.params.const.main.eqGains[i] ?? 0;
+        });
+    }
+
+    private applyLevels() {
+        if (!this.voice) return;
+        const { noise, whistle } = this.params.const;
+        this.voice.bedGain.gain.value = noise.baseLevel;
+        this.voice.gustGain.gain.value = noise.gustLevel;
+        this.voice.whistleGain.gain.value = whistle.level;
+        this.voice.filterDepth.gain.value = this.params.osc.noise.filterFreq.value;
+    }
+
+    // Params that need the noise and whistles rebuilt
+    private voiceOptionsKey(): string {
+        const { noise, whistle } = this.params.const;
+        return JSON.stringify([noise.type, noise.filterQ, whistle.count, whistle.q, whistle.bend, this.params.rand.whistle.freq]);
+    }
+
+    private playGust(when: number) {
+        if (!this.voice) return;
+        const strength = Math.max(0, Math.min(1, this.rand(this.params.rand.gusts.strength)));
+        const duration = Math.max(0.1, this.rand(this.params.rand.gusts.duration));
+        scheduleGust(this.voice.envelope.offset, when, strength, duration);
+    }
+}
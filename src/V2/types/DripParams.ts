@@ -0,0 +1,42 @@
+import { RandParam } from "./ThunderParams";
+
+export type DripSurface = "pool" | "metal" | "wood";
+
+export interface DripParams {
+    const: {
+        main: {
+            volume: number;
+            eqGains: number[];
+        };
+        sources: {
+            /** Number of virtual gutters, eaves and leaves dripping at once. */
+            count: number;
+            /** 0..1; how far each interval strays from its source's period. */
+            drift: number;
+            panRange: number;
+        };
+        /** Relative weights of the surface a source drips onto. */
+        surfaces: {
+            pool: number;
+            metal: number;
+            wood: number;
+        };
+        rain: {
+            /** Rain drop rate (drops/s) at which the drips run at their fastest. */
+            fullRate: number;
+            /** Time constant in seconds of the drips dying away once the rain eases. */
+            drainTime: number;
+        };
+        reverb: {
+            wetLevel: number;
+        };
+    };
+    rand: {
+        sources: {
+            /** Pitch of a source, drawn once per source. */
+            pitch: RandParam;
+            /** Seconds between two drips of a source at full rain, drawn once per source. */
+            interval: RandParam;
+        };
+    };
+}
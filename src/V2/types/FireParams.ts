@@ -0,0 +1,34 @@
+import { RandParam } from "./ThunderParams";
+
+export interface FireParams {
+    const: {
+        main: {
+            volume: number;
+            eqGains: number[];
+        };
+        roar: {
+            level: number;
+            filterFreq: number;
+        };
+        reverb: {
+            wetLevel: number;
+        };
+    };
+    rand: {
+        fire: {
+            /** 0..1, drawn again every few seconds; scales the roar and the pop rate. */
+            intensity: RandParam;
+        };
+        pops: {
+            /** Crackle pops per second at full intensity. */
+            density: RandParam;
+            /** 0..1; bigger pops are louder, longer and lower. */
+            size: RandParam;
+        };
+        snaps: {
+            /** Seconds between two larger hiss/snap events. */
+            interval: RandParam;
+            size: RandParam;
+        };
+    };
+}
@@ -0,0 +1,10 @@
+/**
+ * One entry of `NoiseDParams.generators`: a generator of a registered `type`,
+ * addressed by `id`.
+ */
+export interface GeneratorInstance<P extends Record<string, any> = Record<string, any>> {
+    id: string;
+    type: string;
+    params: P;
+    on?: boolean;
+}
@@ -0,0 +1,39 @@
+import { OscParam } from "./RainParams";
+import { RandParam } from "./ThunderParams";
+
+export type GrainEnvelope = "hann" | "triangle" | "expodec";
+
+export interface GranularParams {
+    const: {
+        main: {
+            volume: number;
+            eqGains: number[];
+        };
+        envelope: {
+            /** Hann is smoothest, triangle more present, expodec percussive. */
+            shape: GrainEnvelope;
+        };
+    };
+    osc: {
+        grains: {
+            /** 0..1, where in the recording grains are taken from. */
+            position: OscParam;
+            /** Grain length in seconds. */
+            length: OscParam;
+            /** Transposition in semitones. */
+            pitch: OscParam;
+            /** Grains per second. */
+            density: OscParam;
+            /** 0..1, how far grains spread across the stereo field. */
+            panSpread: OscParam;
+        };
+    };
+    /** Offsets drawn for every grain and added to the values above. */
+    rand: {
+        grains: {
+            position: RandParam;
+            length: RandParam;
+            pitch: RandParam;
+        };
+    };
+}
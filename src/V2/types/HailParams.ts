@@ -0,0 +1,31 @@
+export type HailCurve = "steady" | "swell" | "burst";
+
+export interface HailParams {
+    const: {
+        main: {
+            volume: number;
+            eqGains: number[];
+        };
+        stones: {
+            /** Stones per second at the peak of the density curve. */
+            rate: number;
+            /** Mean diameter in cm; sizes are spread exponentially around it. */
+            meanSize: number;
+            maxSize: number;
+            panRange: number;
+        };
+        bounces: {
+            /** Most bounces after an impact; bigger stones bounce more. */
+            count: number;
+            level: number;
+        };
+        shower: {
+            /** How the density moves over a `period`: flat, rising and falling, or a sudden onset that dies away. */
+            curve: HailCurve;
+            period: number;
+        };
+        reverb: {
+            wetLevel: number;
+        };
+    };
+}
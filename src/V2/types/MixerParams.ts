@@ -0,0 +1,30 @@
+export interface ChannelStripParams {
+    gain: number;
+    mute: boolean;
+    solo: boolean;
+    /** -1 (left) to 1 (right). */
+    pan: number;
+    /** Post-fader send level per bus name. */
+    sends: Record<string, number>;
+}
+
+/** A shared reverb that strips send into. */
+export interface SendBusParams {
+    /** Return level of the bus. */
+    gain: number;
+    /** Impulse response length in seconds. */
+    duration: number;
+    decay: number;
+}
+
+export interface MixerParams {
+    /** One strip per generator id (`"rain"`, `"thunder"` and added generators). */
+    strips: Record<string, ChannelStripParams>;
+    buses: Record<string, SendBusParams>;
+}
+
+/** Partial mixer state, as accepted by `updateParams({ mixer })`. */
+export interface MixerUpdate {
+    strips?: Record<string, Partial<ChannelStripParams>>;
+    buses?: Record<string, Partial<SendBusParams>>;
+}
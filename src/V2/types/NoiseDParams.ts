@@ -1,5 +1,8 @@
 import { RainParams } from "./RainParams";
 import { ThunderParams } from "./ThunderParams"; // You’ll create this later
+import { HailParams } from "./HailParams";
+import { GeneratorInstance } from "./GeneratorInstance";
+import { MixerParams } from "./MixerParams";
 
 export type Range<T = number> = {
     min: T;
@@ -11,4 +14,13 @@ export interface NoiseDParams {
     eqGains: number[];
     rainParams: RainParams & { on: boolean };
     thunderParams: ThunderParams & { on: boolean };
+    /** Defaults to `_defaultHailParamsV2`; the hail is only heard once `hailMix` is above 0. */
+    hailParams?: HailParams & { on: boolean };
+    /** 0 plays only rain, 1 only hail. */
+    hailMix?: number;
+    seed?: number;
+    /** Generators added on top of the rain and thunder, by registered type. */
+    generators?: GeneratorInstance[];
+    /** Channel strips and send buses; defaults to unity strips and one `reverb` bus. */
+    mixer?: MixerParams;
 }
@@ -0,0 +1,32 @@
+import { RandParam } from "./ThunderParams";
+
+export type ShorelineType = "sand" | "rocks";
+
+export interface OceanParams {
+    const: {
+        main: {
+            volume: number;
+            eqGains: number[];
+        };
+        waves: {
+            /** Number of waves in a set. */
+            setSize: number;
+            /** Calm between two sets, in seconds. */
+            setPause: number;
+            /** 0 = standing at the waterline, 1 = far up the beach. */
+            distance: number;
+            shore: ShorelineType;
+        };
+        reverb: {
+            wetLevel: number;
+        };
+    };
+    rand: {
+        waves: {
+            /** Seconds between two waves of a set. */
+            period: RandParam;
+            /** 0..1; the middle of a set breaks highest. */
+            height: RandParam;
+        };
+    };
+}
@@ -0,0 +1,31 @@
+type Leaf = string | number | boolean | readonly unknown[];
+
+// Depth counter that keeps the recursive path type finite
+type Prev = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+/**
+ * Every dotted path into `T`, e.g. `"rainParams.osc.drops.minPitch.value"`.
+ * Arrays are treated as leaves.
+ */
+export type ParamPath<T, Depth extends number = 8> = [Depth] extends [never] ? never : {
+    [K in keyof T & string]: NonNullable<T[K]> extends Leaf
+        ? K
+        : K | `${K}.${ParamPath<NonNullable<T[K]>, Prev[Depth]>}`;
+}[keyof T & string];
+
+/**
+ * Type of the value found at `P` inside `T`.
+ */
+export type ParamPathValue<T, P extends string> =
+    P extends `${infer K}.${infer Rest}`
+        ? K extends keyof T ? ParamPathValue<NonNullable<T[K]>, Rest> : never
+        : P extends keyof T ? T[P] : never;
+
+/**
+ * `T` with every field optional, at any depth. Arrays are replaced whole.
+ */
+export type DeepPartial<T> = T extends Leaf
+    ? T
+    : { [K in keyof T]?: DeepPartial<T[K]> };
+
+export type ParamListener<V> = (value: V, changedPath: string) => void;
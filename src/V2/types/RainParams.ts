@@ -1,4 +1,10 @@
-export type NoiseType = "pink" | "white";
+import { NoiseType } from "../../types/NoiseType";
+import { SurfaceWeights } from "../../types/Surface";
+import { DropModel, DropSizeDistribution } from "../../types/DropModel";
+import { DropLayerParams } from "../../types/DropLayer";
+import { DropTimingParams } from "../../types/DropTiming";
+
+export { NoiseType };
 
 export type OscParamKeys<T> = {
     [K in keyof T]: T[K] extends OscParam ? K : never
@@ -28,6 +34,22 @@ export interface RainParams {
             decayTime: number;
             q: number;
         }
+        /** Surfaces the drops land on, by weight; missing or all 0 keeps the plain noise drops. */
+        surfaces?: SurfaceWeights;
+        /** How drops that miss every surface sound; missing means noise drops. */
+        dropModel?: {
+            type: DropModel;
+            /** Mean drop radius in mm. */
+            radius: number;
+            radiusSpread: number;
+            distribution: DropSizeDistribution;
+            /** Share of drops that trap a ringing bubble. */
+            bubbleShare: number;
+        };
+        /** How drops are spaced in time; missing means Poisson timing. */
+        timing?: DropTimingParams;
+        /** Named drop layers; missing or empty plays `drops` as a single layer. */
+        layers?: Record<string, DropLayerParams>;
     }
     osc: {
         noise: {
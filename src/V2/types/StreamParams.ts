@@ -0,0 +1,35 @@
+import { NoiseType } from "../../types/NoiseType";
+import { OscParam } from "./RainParams";
+
+export interface StreamParams {
+    const: {
+        main: {
+            volume: number;
+            eqGains: number[];
+        };
+        bed: {
+            level: number;
+            type: NoiseType;
+        };
+        bubbles: {
+            level: number;
+        };
+        reverb: {
+            wetLevel: number;
+        };
+    };
+    osc: {
+        flow: {
+            /** Bubbles per second. */
+            rate: OscParam;
+            /** 0..1; spreads the pitch and bunches the bubbles together. */
+            turbulence: OscParam;
+        };
+        stream: {
+            /** 0 = a trickle, 1 = a wide creek; bigger streams sound lower and fuller. */
+            size: OscParam;
+            /** 0 = at the water's edge, 1 = far away. */
+            distance: OscParam;
+        };
+    };
+}
@@ -1,3 +1,6 @@
+import { ThunderModel } from "../../types/ThunderModel";
+import { ThunderTypeWeights } from "../../types/ThunderType";
+
 type Range<T> = {
     min: T;
     max: T;
@@ -10,6 +13,8 @@ export interface RandParam {
 }
 
 export interface ThunderParams {
+    /** How the next thunder is synthesized; the channel params below only apply to `nwave`. Missing means `classic`. */
+    model?: ThunderModel;
     volume: RandParam;
     delayBetweenThunders: Range<number>;
     duration: RandParam;
@@ -32,4 +37,13 @@ export interface ThunderParams {
     rumbleFreqEnd: RandParam;
     rumbleVolume: RandParam;
     rumbleDecay: RandParam;
+
+    /** Lightning channel of the `nwave` model; missing fields take their defaults. */
+    distance?: RandParam;
+    channelLength?: RandParam;
+    tortuosity?: RandParam;
+    orientation?: RandParam;
+
+    /** Named thunder types to mix by weight; missing or all 0 plays every thunder from these params. */
+    thunderTypes?: ThunderTypeWeights;
 }
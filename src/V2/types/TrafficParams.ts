@@ -0,0 +1,29 @@
+import { RandParam } from "./ThunderParams";
+
+export interface TrafficParams {
+    const: {
+        main: {
+            volume: number;
+            eqGains: number[];
+        };
+        cars: {
+            /** Level of the tyre hiss on the wet road. */
+            hissLevel: number;
+            engineLevel: number;
+        };
+        bed: {
+            /** Level of the distant traffic rumble. */
+            level: number;
+        };
+    };
+    rand: {
+        cars: {
+            /** Cars per minute. */
+            density: RandParam;
+            /** km/h. */
+            speed: RandParam;
+            /** Closest distance of a passing car, in meters. */
+            distance: RandParam;
+        };
+    };
+}
@@ -0,0 +1,42 @@
+import { NoiseType } from "../../types/NoiseType";
+import { OscParam } from "./RainParams";
+import { RandParam } from "./ThunderParams";
+
+export interface WindParams {
+    const: {
+        main: {
+            volume: number;
+            eqGains: number[];
+        };
+        noise: {
+            type: NoiseType;
+            baseLevel: number;
+            gustLevel: number;
+            filterQ: number;
+        };
+        whistle: {
+            level: number;
+            count: number;
+            q: number;
+            bend: number;
+        };
+    };
+    osc: {
+        noise: {
+            filterFreq: OscParam;
+        };
+        stereo: {
+            pan: OscParam;
+        };
+    };
+    rand: {
+        gusts: {
+            interval: RandParam;
+            duration: RandParam;
+            strength: RandParam;
+        };
+        whistle: {
+            freq: RandParam;
+        };
+    };
+}
@@ -0,0 +1,297 @@
+import { OscParam } from "./types/OscParam";
+import { RandParam } from "./types/RandParam";
+import { Random } from "./types/Random";
+import { NoiseType } from "./types/NoiseType";
+import { ParamSchema, ValidationMode } from "./types/ParamSchema";
+import { eqGainsSpec, validateParams } from "./functions/validateParams";
+import { createWindVoice, WindVoice } from "./functions/createWindVoice";
+import { scheduleGust } from "./functions/scheduleGust";
+import { LookaheadScheduler } from "./scheduling/LookaheadScheduler";
+import { noiseTypes } from "./functions/fillNoise";
+
+export interface WindParams {
+    volume: number;
+    eqGains: number[];
+
+    noiseType: NoiseType;
+    baseLevel: number;
+    gustLevel: number;
+    filterFreq: OscParam;
+    filterQ: number;
+
+    gustInterval: RandParam;
+    gustDuration: RandParam;
+    gustStrength: RandParam;
+
+    whistleLevel: number;
+    whistleCount: number;
+    whistleFreq: RandParam;
+    whistleQ: number;
+    whistleBend: number;
+
+    pan: OscParam;
+}
+
+export const _defaultWindParams: WindParams = {
+    volume: 0.5,
+    eqGains: new Array(10).fill(0),
+    noiseType: 'pink',
+    baseLevel: 0.3,
+    gustLevel: 0.5,
+    filterFreq: { value: 600, osc: false, amp: 200, freq: 0.05 },
+    filterQ: 0.7,
+    gustInterval: { value: 4, rand: true, dist: 6 },
+    gustDuration: { value: 3, rand: true, dist: 3 },
+    gustStrength: { value: 0.5, rand: true, dist: 0.5 },
+    whistleLevel: 0.15,
+    whistleCount: 2,
+    whistleFreq: { value: 700, rand: true, dist: 600 },
+    whistleQ: 25,
+    whistleBend: 0.6,
+    pan: { value: 0, osc: true, amp: 0.6, freq: 0.05 },
+};
+
+export const windParamsSchema: ParamSchema<WindParams> = {
+    volume: { kind: "number", min: 0, max: 1, unit: "gain", default: _defaultWindParams.volume, description: "Output volume of the wind" },
+    eqGains: eqGainsSpec(10),
+    noiseType: { kind: "enum", values: noiseTypes, default: _defaultWindParams.noiseType, description: "Color of the wind noise" },
+    baseLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: _defaultWindParams.baseLevel, description: "Level of the wind between gusts" },
+    gustLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: _defaultWindParams.gustLevel, description: "Level added at the peak of a full gust" },
+    filterFreq: { kind: "osc", min: 20, max: 20000, unit: "Hz", default: _defaultWindParams.filterFreq, description: "Lowpass cutoff between gusts; a full gust doubles it" },
+    filterQ: { kind: "number", min: 0.0001, max: 20, unit: "Q", default: _defaultWindParams.filterQ, description: "Resonance of the wind lowpass" },
+    gustInterval: { kind: "rand", min: 0.1, max: 120, unit: "s", default: _defaultWindParams.gustInterval, description: "Time between the starts of two gusts" },
+    gustDuration: { kind: "rand", min: 0.1, max: 60, unit: "s", default: _defaultWindParams.gustDuration, description: "Length of a gust" },
+    gustStrength: { kind: "rand", min: 0, max: 1, unit: "", default: _defaultWindParams.gustStrength, description: "Peak of a gust, 1 being a full gust" },
+    whistleLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: _defaultWindParams.whistleLevel, description: "Level of the whistles at full gust" },
+    whistleCount: { kind: "number", min: 0, max: 8, unit: "", integer: true, default: _defaultWindParams.whistleCount, description: "Number of resonant whistle tones" },
+    whistleFreq: { kind: "rand", min: 100, max: 8000, unit: "Hz", default: _defaultWindParams.whistleFreq, description: "Pitch of a whistle between gusts" },
+    whistleQ: { kind: "number", min: 1, max: 200, unit: "Q", default: _defaultWindParams.whistleQ, description: "Resonance of the whistles" },
+    whistleBend: { kind: "number", min: 0, max: 4, unit: "ratio", default: _defaultWindParams.whistleBend, description: "Pitch rise of the whistles at full gust" },
+    pan: { kind: "osc", min: -1, max: 1, unit: "pan", default: _defaultWindParams.pan, description: "Stereo position; oscillation sweeps the wind across" },
+};
+
+// Changing these rebuilds the noise and whistles
+const voiceKeys: (keyof WindParams)[] = ['noiseType', 'filterQ', 'whistleCount', 'whistleFreq', 'whistleQ', 'whistleBend'];
+
+export class WindGenerator<T extends BaseAudioContext = AudioContext> {
+    private ctx: T;
+    private output: GainNode;
+    private panner: StereoPannerNode;
+    private eqBands: BiquadFilterNode[];
+    private voice: WindVoice | null = null;
+    private lfoMap = new Map<string, { osc: OscillatorNode; gain: GainNode }>();
+    private scheduler: LookaheadScheduler;
+    private cancelGusts: (() => void) | null = null;
+    private running = false;
+    private params: WindParams;
+    private random: Random;
+    private validationMode: ValidationMode = "clamp";
+    private readonly eqFrequencies = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+    constructor(audioCtx: T, params?: Partial<WindParams>, random: Random = Math.random) {
+        this.ctx = audioCtx;
+        this.random = random;
+        this.scheduler = LookaheadScheduler.for(audioCtx);
+        this.params = { ..._defaultWindParams, ...validateParams(windParamsSchema, params ?? {}) };
+
+        this.output = this.ctx.createGain();
+        this.output.gain.value = this.params.volume;
+        this.panner = this.ctx.createStereoPanner();
+
+        this.eqBands = this.eqFrequencies.map((freq, i) => {
+            const band = this.ctx.createBiquadFilter();
+            band.type = 'peaking';
+            band.frequency.value = freq;
+            band.Q.value = 1.0;
+            band.gain.value = this.params.eqGains[i] ?? 0;
+            return band;
+        });
+
+        let last: AudioNode = this.panner;
+        this.eqBands.forEach(band => {
+            last.connect(band);
+            last = band;
+        });
+        last.connect(this.output);
+    }
+
+    public start() {
+        if (this.running) return;
+        this.running = true;
+
+        this._startVoice();
+        this.setPan(this.params.pan);
+
+        const firstGust = this.ctx.currentTime + this._rand(this.params.gustInterval) * this.random();
+        this.cancelGusts = this.scheduler.schedule(firstGust, when => {
+            this._playGust(when);
+            return when + Math.max(0.1, this._rand(this.params.gustInterval));
+        });
+    }
+
+    public stop() {
+        this.running = false;
+
+        this.cancelGusts?.();
+        this.cancelGusts = null;
+
+        this.voice?.stop();
+        this.voice = null;
+
+        this.lfoMap.forEach(({ osc, gain }) => {
+            osc.stop();
+            osc.disconnect();
+            gain.disconnect();
+        });
+        this.lfoMap.clear();
+    }
+
+    public destroy() {
+        this.stop();
+        this.panner.disconnect();
+        this.eqBands.forEach(band => band.disconnect());
+        this.output.disconnect();
+    }
+
+    public setVolume(value: number) {
+        this.params.volume = this._validate("volume", value);
+        this.output.gain.setValueAtTime(this.params.volume, this.ctx.currentTime);
+    }
+
+    public setFilterFreq(param: OscParam) {
+        this.params.filterFreq = this._validate("filterFreq", param);
+        if (this.voice) {
+            this.voice.filterDepth.gain.value = this.params.filterFreq.value;
+            this.setOscParam(this.params.filterFreq, this.voice.filter.frequency, 'filterFreq');
+        }
+    }
+
+    public setPan(param: OscParam) {
+        this.params.pan = this._validate("pan", param);
+        this.setOscParam(this.params.pan, this.panner.pan, 'pan');
+    }
+
+    public setGustInterval(param: RandParam) {
+        this.params.gustInterval = this._validate("gustInterval", param);
+    }
+
+    public setGustDuration(param: RandParam) {
+        this.params.gustDuration = this._validate("gustDuration", param);
+    }
+
+    public setGustStrength(param: RandParam) {
+        this.params.gustStrength = this._validate("gustStrength", param);
+    }
+
+    public setParams(newParams: Partial<WindParams>) {
+        this._applyParams(validateParams(windParamsSchema, newParams, this.validationMode));
+    }
+
+    public setValidationMode(mode: ValidationMode) {
+        this.validationMode = mode;
+    }
+
+    public getParams(): WindParams {
+        return this.params;
+    }
+
+    private _validate<K extends keyof WindParams>(key: K, value: WindParams[K]): WindParams[K] {
+        const checked = validateParams(windParamsSchema, { [key]: value } as Partial<WindParams>, this.validationMode);
+        return checked[key] as WindParams[K];
+    }
+
+    private _applyParams(newParams: Partial<WindParams>) {
+        this.params = { ...this.params, ...newParams };
+
+        this.output.gain.setValueAtTime(this.params.volume, this.ctx.currentTime);
+        if (newParams.eqGains?.length === this.eqBands.length) {
+            newParams.eqGains.forEach((gain, i) => {
+                this.eqBands[i].gain.value = gain;
+            });
+        }
+
+        if (!this.voice) return;
+        if (voiceKeys.some(key => key in newParams)) {
+            this.voice.stop();
+            this._startVoice();
+        } else {
+            this._applyLevels();
+            this.setOscParam(this.params.filterFreq, this.voice.filter.frequency, 'filterFreq');
+        }
+        this.setOscParam(this.params.pan, this.panner.pan, 'pan');
+    }
+
+    private _startVoice() {
+        const whistleFreqs = Array.from(
+            { length: this.params.whistleCount },
+            () => Math.max(20, this._rand(this.params.whistleFreq))
+        );
+        this.voice = createWindVoice(this.ctx, this.panner, {
+            noiseType: this.params.noiseType,
+            filterQ: this.params.filterQ,
+            whistleFreqs,
+            whistleQ: this.params.whistleQ,
+            whistleBend: this.params.whistleBend,
+        }, this.random);
+
+        this._applyLevels();
+        this.setOscParam(this.params.filterFreq, this.voice.filter.frequency, 'filterFreq');
+        this.voice.start();
+    }
+
+    private _applyLevels() {
+        if (!this.voice) return;
+        this.voice.bedGain.gain.value = this.params.baseLevel;
+        this.voice.gustGain.gain.value = this.params.gustLevel;
+        this.voice.whistleGain.gain.value = this.params.whistleLevel;
+        this.voice.filterDepth.gain.value = this.params.filterFreq.value;
+    }
+
+    private _playGust(when: number) {
+        if (!this.voice) return;
+        const strength = Math.min(1, Math.max(0, this._rand(this.params.gustStrength)));
+        const duration = Math.max(0.1, this._rand(this.params.gustDuration));
+        scheduleGust(this.voice.envelope.offset, when, strength, duration);
+    }
+
+    private _rand(param: RandParam): number {
+        return param.rand ? param.value + this.random() * param.dist : param.value;
+    }
+
+    private setOscParam(param: OscParam, target: AudioParam, id: string) {
+        const now = this.ctx.currentTime;
+
+        const prev = this.lfoMap.get(id);
+        if (prev) {
+            prev.osc.stop();
+            prev.osc.disconnect();
+            prev.gain.disconnect();
+            this.lfoMap.delete(id);
+        }
+
+        target.cancelScheduledValues(now);
+        target.setValueAtTime(param.value, now);
+
+        if (this.running && param.osc) {
+            const osc = this.ctx.createOscillator();
+            const gain = this.ctx.createGain();
+            osc.type = 'sine';
+            osc.frequency.value = param.freq;
+            gain.gain.value = param.amp;
+
+            osc.connect(gain);
+            gain.connect(target);
+            osc.start();
+
+            this.lfoMap.set(id, { osc, gain });
+        }
+    }
+
+    public connect(node: AudioNode) {
+        this.output.connect(node);
+    }
+
+    public disconnect() {
+        this.output.disconnect();
+    }
+}
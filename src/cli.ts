@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from "node:fs";
+import { ignoredRainParams, renderScene } from "./headless/renderScene";
+import { encodeWav } from "./functions/encodeWav";
+
+const usage = `Usage: noised render <preset.json> [options]
+
+Options:
+  --duration <seconds>    Length of the render (default: 60)
+  --out <file>            Output WAV file (default: out.wav)
+  --sample-rate <hz>      Sample rate (default: 44100)
+  --seed <number>         Seed for reproducible output (overrides the preset)`;
+
+function fail(message: string): never {
+    console.error(`${message}\n\n${usage}`);
+    process.exit(1);
+}
+
+function parseNumber(flag: string, value: string | undefined): number {
+    const parsed = Number(value);
+    if (value === undefined || !Number.isFinite(parsed)) fail(`${flag} expects a number`);
+    return parsed;
+}
+
+function main(argv: string[]) {
+    const [command, presetPath, ...rest] = argv;
+    if (command !== "render" || !presetPath) fail("Missing command or preset");
+
+    let duration = 60;
+    let out = "out.wav";
+    let sampleRate = 44100;
+    let seed: number | undefined;
+
+    for (let i = 0; i < rest.length; i++) {
+        const flag = rest[i];
+        const value = rest[++i];
+        switch (flag) {
+            case "--duration": duration = parseNumber(flag, value); break;
+            case "--sample-rate": sampleRate = parseNumber(flag, value); break;
+            case "--seed": seed = parseNumber(flag, value); break;
+            case "--out":
+                if (!value) fail("--out expects a file name");
+                out = value;
+                break;
+            default: fail(`Unknown option ${flag}`);
+        }
+    }
+
+    const preset = JSON.parse(readFileSync(presetPath, "utf8"));
+    if (seed !== undefined) preset.seed = seed;
+    const ignored = ignoredRainParams(preset);
+    if (ignored.length > 0) {
+        console.warn(`Warning: ${ignored.map(key => `rainParams.${key}`).join(", ")} can't be rendered headless yet and will be ignored`);
+    }
+
+    const started = Date.now();
+    let channels: Float32Array[];
+    try {
+        channels = renderScene(preset, { duration, sampleRate });
+    } catch (error) {
+        if (error instanceof RangeError) fail(error.message);
+        throw error;
+    }
+    writeFileSync(out, new Uint8Array(encodeWav(channels, sampleRate)));
+    console.log(`Rendered ${duration}s to ${out} in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+}
+
+main(process.argv.slice(2));
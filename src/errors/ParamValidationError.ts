@@ -0,0 +1,23 @@
+import { ParamSpec } from "../types/ParamSchema";
+
+export type ParamValidationReason = "type" | "range" | "enum" | "length";
+
+/**
+ * Thrown in `"throw"` validation mode. `path` is the dotted path of the
+ * offending field, e.g. `rainParams.dropRate` or `osc.drops.minPitch.value`.
+ */
+export class ParamValidationError extends Error {
+    readonly path: string;
+    readonly value: unknown;
+    readonly reason: ParamValidationReason;
+    readonly spec: ParamSpec | undefined;
+
+    constructor(path: string, value: unknown, reason: ParamValidationReason, spec: ParamSpec | undefined, message: string) {
+        super(`Invalid param "${path}": ${message}`);
+        this.name = "ParamValidationError";
+        this.path = path;
+        this.value = value;
+        this.reason = reason;
+        this.spec = spec;
+    }
+}
@@ -0,0 +1,33 @@
+export type EventListener<T> = (event: T) => void;
+
+/**
+ * Minimal typed event emitter. `Events` maps event names to payload types.
+ */
+export class EventEmitter<Events extends object> {
+    private listeners = new Map<keyof Events, Set<EventListener<any>>>();
+
+    /**
+     * Adds a listener and returns a function that removes it again.
+     */
+    on<E extends keyof Events>(event: E, listener: EventListener<Events[E]>): () => void {
+        let set = this.listeners.get(event);
+        if (!set) {
+            set = new Set();
+            this.listeners.set(event, set);
+        }
+        set.add(listener);
+        return () => this.off(event, listener);
+    }
+
+    off<E extends keyof Events>(event: E, listener: EventListener<Events[E]>) {
+        this.listeners.get(event)?.delete(listener);
+    }
+
+    protected emit<E extends keyof Events>(event: E, payload: Events[E]) {
+        this.listeners.get(event)?.forEach(listener => listener(payload));
+    }
+
+    protected hasListeners(event: keyof Events): boolean {
+        return (this.listeners.get(event)?.size ?? 0) > 0;
+    }
+}
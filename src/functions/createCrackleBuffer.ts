@@ -0,0 +1,22 @@
+import { Random } from "../types/Random";
+
+/**
+ * Creates a buffer of sparse noisy clicks: each sample is a random value with
+ * probability `density`, silence otherwise.
+ */
+export function createCrackleBuffer(
+    ctx: BaseAudioContext,
+    duration: number,
+    random: Random,
+    density: number = 0.3
+): AudioBuffer {
+    const length = Math.max(1, Math.floor(ctx.sampleRate * duration));
+    const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+
+    for (let i = 0; i < length; i++) {
+        data[i] = random() > 1 - density ? random() * 2 - 1 : 0;
+    }
+
+    return buffer;
+}
@@ -1,19 +1,39 @@
-export function createImpulseResponse(
-    ctx: BaseAudioContext,
+import { Random } from "../types/Random";
+
+/**
+ * Generates the raw channel data of an exponentially decaying noise impulse
+ * response. Shared by the Web Audio generators and the headless renderer.
+ */
+export function generateImpulseResponse(
+    sampleRate: number,
     duration: number = 2,
-    decay: number = 2
-): AudioBuffer {
-    const sampleRate = ctx.sampleRate;
-    const length = sampleRate * duration;
-    const impulse = ctx.createBuffer(2, length, sampleRate);
+    decay: number = 2,
+    random: Random = Math.random,
+    channels: number = 2
+): Float32Array[] {
+    const length = Math.floor(sampleRate * duration);
+    const data: Float32Array[] = [];
 
-    for (let channel = 0; channel < 2; channel++) {
-        const channelData = impulse.getChannelData(channel);
+    for (let channel = 0; channel < channels; channel++) {
+        const channelData = new Float32Array(length);
         for (let i = 0; i < length; i++) {
             // exponential decay
-            channelData[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, decay);
+            channelData[i] = (random() * 2 - 1) * Math.pow(1 - i / length, decay);
         }
+        data.push(channelData);
     }
 
+    return data;
+}
+
+export function createImpulseResponse(
+    ctx: BaseAudioContext,
+    duration: number = 2,
+    decay: number = 2,
+    random: Random = Math.random
+): AudioBuffer {
+    const data = generateImpulseResponse(ctx.sampleRate, duration, decay, random);
+    const impulse = ctx.createBuffer(data.length, data[0].length, ctx.sampleRate);
+    data.forEach((channelData, channel) => impulse.copyToChannel(channelData, channel));
     return impulse;
 }
@@ -0,0 +1,136 @@
+import { Random } from "../types/Random";
+import { NoiseType } from "../types/NoiseType";
+import { createNoiseBuffer } from "./createNoiseBuffer";
+
+// Length of each randomized buffer, in seconds
+const BUFFER_DURATION = 12;
+// Segments taken from the buffers, in seconds
+const MIN_SEGMENT = 3;
+const MAX_SEGMENT = 6;
+// Overlap between two segments, in seconds
+const FADE = 0.5;
+// A buffer is replaced by fresh noise after this many segments
+const REFRESH_EVERY = 8;
+// Length of the looped buffer that takes over when the segments run out
+const FALLBACK_DURATION = 30;
+const CURVE_POINTS = 64;
+
+/**
+ * A noise source that never audibly repeats. Call `fill(until)` regularly
+ * (audio clock) to keep it queued ahead; if the calls stop, a looped buffer
+ * carries on until they come back. `stop()` silences it at once.
+ */
+export interface NoiseBed {
+    output: GainNode;
+    fill(until: number): void;
+    stop(): void;
+}
+
+/**
+ * Creates a noise bed that plays segments of random length from random spots
+ * of two long buffers, with random polarity, joined by equal-power
+ * crossfades. The buffers are regenerated as it plays, so the bed is never
+ * the same loop twice. Under them a long loop fades in wherever the queued
+ * segments end, so the bed doesn't go silent while timers are frozen (e.g.
+ * on a locked phone), and fades out again once segments are queued.
+ */
+export function createNoiseBed(ctx: BaseAudioContext, type: NoiseType, random: Random): NoiseBed {
+    const output = ctx.createGain();
+    const buffers = [0, 1].map(() => createNoiseBuffer(ctx, type, random, BUFFER_DURATION));
+    const fallbackBuffer = createNoiseBuffer(ctx, type, random, FALLBACK_DURATION);
+    const fallbackGain = ctx.createGain();
+    fallbackGain.gain.value = 0;
+    fallbackGain.connect(output);
+    const sources = new Map<AudioBufferSourceNode, GainNode>();
+    const fadeIn = new Float32Array(CURVE_POINTS);
+    const fadeOut = new Float32Array(CURVE_POINTS);
+    for (let i = 0; i < CURVE_POINTS; i++) {
+        const x = (i / (CURVE_POINTS - 1)) * Math.PI / 2;
+        fadeIn[i] = Math.sin(x);
+        fadeOut[i] = Math.cos(x);
+    }
+
+    let queuedUntil = -Infinity;
+    let segments = 0;
+    let fallback: AudioBufferSourceNode | null = null;
+    // When the fallback fades in, at the end of the queued segments
+    let fallbackAt = Infinity;
+
+    const queueSegment = (start: number) => {
+        if (++segments % REFRESH_EVERY === 0) {
+            buffers[Math.floor(random() * buffers.length)] = createNoiseBuffer(ctx, type, random, BUFFER_DURATION);
+        }
+
+        const length = MIN_SEGMENT + random() * (MAX_SEGMENT - MIN_SEGMENT);
+        const buffer = buffers[Math.floor(random() * buffers.length)];
+        const offset = random() * (buffer.duration - length);
+        const polarity = random() < 0.5 ? -1 : 1;
+
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        const gain = ctx.createGain();
+        gain.gain.value = 0;
+        gain.gain.setValueCurveAtTime(fadeIn.map(v => v * polarity), start, FADE);
+        gain.gain.setValueCurveAtTime(fadeOut.map(v => v * polarity), start + length - FADE, FADE);
+
+        source.connect(gain);
+        gain.connect(output);
+        source.start(start, offset, length);
+        sources.set(source, gain);
+        source.onended = () => {
+            sources.delete(source);
+            source.disconnect();
+            gain.disconnect();
+        };
+
+        // The next segment fades in while this one fades out
+        return start + length - FADE;
+    };
+
+    return {
+        output,
+        fill(until: number) {
+            const now = ctx.currentTime;
+            if (until <= now) return;
+            if (!fallback) {
+                fallback = ctx.createBufferSource();
+                fallback.buffer = fallbackBuffer;
+                fallback.loop = true;
+                fallback.connect(fallbackGain);
+                fallback.start(now, random() * FALLBACK_DURATION);
+            }
+
+            if (queuedUntil < now) queuedUntil = now;
+            while (queuedUntil < until) queuedUntil = queueSegment(queuedUntil);
+
+            const gain = fallbackGain.gain;
+            gain.cancelScheduledValues(now);
+            if (fallbackAt <= now) {
+                // The fallback was playing: fade it out under the new segments
+                gain.setValueCurveAtTime(fadeOut, now, FADE);
+            } else {
+                gain.setValueAtTime(0, now);
+            }
+            // Curves on one param can't overlap, so the fade-in waits for the fade-out
+            fallbackAt = Math.max(queuedUntil, now + FADE);
+            gain.setValueCurveAtTime(fadeIn, fallbackAt, FADE);
+        },
+        stop() {
+            sources.forEach((gain, source) => {
+                source.onended = null;
+                source.stop();
+                source.disconnect();
+                gain.disconnect();
+            });
+            sources.clear();
+            queuedUntil = -Infinity;
+
+            fallback?.stop();
+            fallback?.disconnect();
+            fallback = null;
+            fallbackGain.gain.cancelScheduledValues(0);
+            fallbackGain.gain.value = 0;
+            fallbackAt = Infinity;
+        },
+    };
+}
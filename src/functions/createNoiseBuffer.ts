@@ -0,0 +1,17 @@
+import { Random } from "../types/Random";
+import { NoiseType } from "../types/NoiseType";
+import { fillNoise } from "./fillNoise";
+
+/**
+ * Creates a mono buffer of `duration` seconds of noise, meant to be looped.
+ */
+export function createNoiseBuffer(
+    ctx: BaseAudioContext,
+    type: NoiseType,
+    random: Random,
+    duration: number = 2
+): AudioBuffer {
+    const buffer = ctx.createBuffer(1, Math.floor(ctx.sampleRate * duration), ctx.sampleRate);
+    fillNoise(buffer.getChannelData(0), type, random);
+    return buffer;
+}
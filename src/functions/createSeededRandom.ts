@@ -0,0 +1,25 @@
+import { Random } from "../types/Random";
+
+/**
+ * Creates a deterministic PRNG (mulberry32). Two generators created with the
+ * same seed return the same sequence.
+ */
+export function createSeededRandom(seed: number): Random {
+    let state = seed >>> 0;
+
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Derives an independent seeded stream from an existing one, so each
+ * generator keeps its own sequence no matter how often the others draw.
+ */
+export function forkRandom(random: Random): Random {
+    return createSeededRandom(Math.floor(random() * 4294967296));
+}
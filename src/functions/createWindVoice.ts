@@ -0,0 +1,100 @@
+import { Random } from "../types/Random";
+import { NoiseType } from "../types/NoiseType";
+import { createNoiseBuffer } from "./createNoiseBuffer";
+
+export interface WindVoiceOptions {
+    noiseType: NoiseType;
+    filterQ: number;
+    /** Centre frequency of each whistle, in Hz. */
+    whistleFreqs: number[];
+    whistleQ: number;
+    /** Pitch rise of the whistles at full gust, as a ratio (0.5 = +50%). */
+    whistleBend: number;
+}
+
+/**
+ * A running wind sound: a looping noise bed through a lowpass plus resonant
+ * whistles, all driven by one gust `envelope` (0 = calm, 1 = full gust).
+ * Gusts raise the bed level, open the lowpass and bend the whistles upwards;
+ * the whistles are only heard while a gust blows.
+ */
+export interface WindVoice {
+    envelope: ConstantSourceNode;
+    /** Bed lowpass; its `frequency` is the cutoff between gusts. */
+    filter: BiquadFilterNode;
+    /** Hz added to the cutoff at full gust. */
+    filterDepth: GainNode;
+    /** Bed level between gusts. */
+    bedGain: GainNode;
+    /** Bed level added at full gust. */
+    gustGain: GainNode;
+    /** Whistle level at full gust. */
+    whistleGain: GainNode;
+    start(when?: number): void;
+    stop(): void;
+}
+
+export function createWindVoice(
+    ctx: BaseAudioContext,
+    destination: AudioNode,
+    options: WindVoiceOptions,
+    random: Random
+): WindVoice {
+    const buffer = createNoiseBuffer(ctx, options.noiseType, random, 4);
+    const noise = ctx.createBufferSource();
+    noise.buffer = buffer;
+    noise.loop = true;
+
+    const envelope = ctx.createConstantSource();
+    envelope.offset.value = 0;
+
+    const filter = ctx.createBiquadFilter();
+    filter.type = "lowpass";
+    filter.Q.value = options.filterQ;
+    const filterDepth = ctx.createGain();
+    envelope.connect(filterDepth).connect(filter.frequency);
+
+    const bedGain = ctx.createGain();
+    const gustGain = ctx.createGain();
+    envelope.connect(gustGain).connect(bedGain.gain);
+    noise.connect(filter).connect(bedGain).connect(destination);
+
+    // Narrow bands pass little of the noise's energy, make up for it
+    const whistleGain = ctx.createGain();
+    const makeup = ctx.createGain();
+    makeup.gain.value = Math.sqrt(options.whistleQ);
+    makeup.connect(whistleGain).connect(destination);
+
+    const whistleNodes: AudioNode[] = options.whistleFreqs.flatMap(freq => {
+        const band = ctx.createBiquadFilter();
+        band.type = "bandpass";
+        band.frequency.value = freq;
+        band.Q.value = options.whistleQ;
+
+        const bend = ctx.createGain();
+        bend.gain.value = freq * options.whistleBend;
+        envelope.connect(bend).connect(band.frequency);
+
+        const amp = ctx.createGain();
+        amp.gain.value = 0;
+        envelope.connect(amp.gain);
+
+        noise.connect(band).connect(amp).connect(makeup);
+        return [band, bend, amp];
+    });
+
+    return {
+        envelope, filter, filterDepth, bedGain, gustGain, whistleGain,
+        start(when = ctx.currentTime) {
+            // A random loop offset keeps two winds on the same seed from phasing
+            noise.start(when, random() * buffer.duration);
+            envelope.start(when);
+        },
+        stop() {
+            noise.stop();
+            envelope.stop();
+            [noise, envelope, filter, filterDepth, bedGain, gustGain, makeup, whistleGain, ...whistleNodes]
+                .forEach(node => node.disconnect());
+        },
+    };
+}
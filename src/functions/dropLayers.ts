@@ -0,0 +1,44 @@
+import { ParamSchema } from "../types/ParamSchema";
+import { DropLayerParams } from "../types/DropLayer";
+import { recordSchema } from "./validateParams";
+
+// Cutoffs at or above this leave a layer unfiltered
+export const UNFILTERED = 20000;
+
+export const _defaultDropLayer: DropLayerParams = {
+    level: 0.5,
+    reverbSend: 0.5,
+    rate: 30,
+    minPitch: 300,
+    maxPitch: 800,
+    decayTime: 0.2,
+    q: 1,
+    panRange: 1,
+    filterFreq: UNFILTERED,
+};
+
+/** Starting points for a layered scene: sparse close drops, a dense mid field and a distant wash. */
+export const dropLayerPresets: Record<"near" | "mid" | "far", DropLayerParams> = {
+    near: { level: 0.8, reverbSend: 0.2, rate: 4, minPitch: 800, maxPitch: 2500, decayTime: 0.15, q: 2, panRange: 1, filterFreq: UNFILTERED },
+    mid: { level: 0.4, reverbSend: 0.4, rate: 60, minPitch: 400, maxPitch: 1500, decayTime: 0.08, q: 1, panRange: 0.8, filterFreq: 8000 },
+    far: { level: 0.3, reverbSend: 0.7, rate: 300, minPitch: 200, maxPitch: 900, decayTime: 0.05, q: 0.7, panRange: 1, filterFreq: 1500 },
+};
+
+export const dropLayerSchema: ParamSchema<DropLayerParams> = {
+    level: { kind: "number", min: 0, max: 1, unit: "gain", default: _defaultDropLayer.level, description: "Dry level of the layer's drops" },
+    reverbSend: { kind: "number", min: 0, max: 1, unit: "gain", default: _defaultDropLayer.reverbSend, description: "Level of the layer's drops sent to the reverb" },
+    rate: { kind: "number", min: 0.1, max: 500, unit: "drops/s", default: _defaultDropLayer.rate, description: "Average number of drops per second" },
+    minPitch: { kind: "number", min: 20, max: 20000, unit: "Hz", default: _defaultDropLayer.minPitch, description: "Lowest bandpass frequency of a drop" },
+    maxPitch: { kind: "number", min: 20, max: 20000, unit: "Hz", default: _defaultDropLayer.maxPitch, description: "Highest bandpass frequency of a drop" },
+    decayTime: { kind: "number", min: 0.005, max: 2, unit: "s", default: _defaultDropLayer.decayTime, description: "Length of a single drop" },
+    q: { kind: "number", min: 0.0001, max: 100, unit: "Q", default: _defaultDropLayer.q, description: "Resonance of the drop bandpass" },
+    panRange: { kind: "number", min: 0, max: 1, unit: "pan", default: _defaultDropLayer.panRange, description: "Stereo spread of the layer" },
+    filterFreq: { kind: "number", min: 20, max: UNFILTERED, unit: "Hz", default: _defaultDropLayer.filterFreq, description: "Lowpass cutoff of the layer" },
+};
+
+export const dropLayersSchema = recordSchema(dropLayerSchema);
+
+/** Fills the fields a layer leaves out from `_defaultDropLayer`. */
+export function withLayerDefaults(layers: Record<string, Partial<DropLayerParams>>): Record<string, DropLayerParams> {
+    return Object.fromEntries(Object.entries(layers).map(([name, layer]) => [name, { ..._defaultDropLayer, ...layer }]));
+}
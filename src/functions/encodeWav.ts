@@ -0,0 +1,60 @@
+/**
+ * Encodes planar float channels as a 16-bit PCM WAV file.
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+    const numOfChan = channels.length;
+    const frames = numOfChan > 0 ? channels[0].length : 0;
+    const length = frames * numOfChan * 2 + 44;
+    const bufferArray = new ArrayBuffer(length);
+    const view = new DataView(bufferArray);
+
+    let offset = 0;
+
+    const writeString = (s: string) => {
+        for (let i = 0; i < s.length; i++) {
+            view.setUint8(offset++, s.charCodeAt(i));
+        }
+    };
+
+    const writeUint32 = (v: number) => {
+        view.setUint32(offset, v, true);
+        offset += 4;
+    };
+
+    const writeUint16 = (v: number) => {
+        view.setUint16(offset, v, true);
+        offset += 2;
+    };
+
+    writeString("RIFF");
+    writeUint32(length - 8);
+    writeString("WAVE");
+    writeString("fmt ");
+    writeUint32(16);
+    writeUint16(1);
+    writeUint16(numOfChan);
+    writeUint32(sampleRate);
+    writeUint32(sampleRate * numOfChan * 2);
+    writeUint16(numOfChan * 2);
+    writeUint16(16);
+    writeString("data");
+    writeUint32(length - offset - 4);
+
+    for (let i = 0; i < frames; i++) {
+        for (let ch = 0; ch < numOfChan; ch++) {
+            const s = Math.max(-1, Math.min(1, channels[ch][i]));
+            view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+            offset += 2;
+        }
+    }
+
+    return bufferArray;
+}
+
+export function audioBufferToWavBlob(buffer: AudioBuffer): Blob {
+    const channels: Float32Array[] = [];
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+        channels.push(buffer.getChannelData(ch));
+    }
+    return new Blob([encodeWav(channels, buffer.sampleRate)], { type: "audio/wav" });
+}
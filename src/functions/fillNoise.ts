@@ -0,0 +1,85 @@
+import { NoiseType } from "../types/NoiseType";
+import { Random } from "../types/Random";
+
+/** Every noise color, for the `enum` specs of the schemas. */
+export const noiseTypes: readonly NoiseType[] = ['pink', 'white', 'brown', 'blue', 'violet', 'velvet'];
+
+// Samples per impulse of velvet noise, about 2200 impulses/s at 44.1 kHz
+const VELVET_PERIOD = 20;
+
+/**
+ * Fills `data` with noise of the given color, in place.
+ */
+export function fillNoise(data: Float32Array, type: NoiseType, random: Random = Math.random): Float32Array {
+    const length = data.length;
+
+    switch (type) {
+        case 'white':
+            for (let i = 0; i < length; i++) data[i] = random() * 2 - 1;
+            break;
+
+        case 'brown': {
+            // Leaky integration of white noise, -6 dB/octave
+            let last = 0;
+            for (let i = 0; i < length; i++) {
+                last = (last + 0.02 * (random() * 2 - 1)) / 1.02;
+                data[i] = last * 3.5;
+            }
+            break;
+        }
+
+        case 'blue': {
+            // Differentiated pink noise, +3 dB/octave
+            fillPink(data, random);
+            let last = 0;
+            for (let i = 0; i < length; i++) {
+                const pink = data[i];
+                data[i] = (pink - last) * 2;
+                last = pink;
+            }
+            break;
+        }
+
+        case 'violet': {
+            // Differentiated white noise, +6 dB/octave
+            let last = 0;
+            for (let i = 0; i < length; i++) {
+                const white = random() * 2 - 1;
+                data[i] = (white - last) * 0.5;
+                last = white;
+            }
+            break;
+        }
+
+        case 'velvet':
+            // One impulse of random sign at a random spot in every period; smoother than white at a fraction of the density
+            data.fill(0);
+            for (let start = 0; start < length; start += VELVET_PERIOD) {
+                const i = start + Math.floor(random() * VELVET_PERIOD);
+                if (i < length) data[i] = random() < 0.5 ? -1 : 1;
+            }
+            break;
+
+        default:
+            fillPink(data, random);
+    }
+
+    return data;
+}
+
+// Pink noise (Paul Kellet's refined method)
+function fillPink(data: Float32Array, random: Random) {
+    let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+    for (let i = 0; i < data.length; i++) {
+        const white = random() * 2 - 1;
+        b0 = 0.99886 * b0 + white * 0.0555179;
+        b1 = 0.99332 * b1 + white * 0.0750759;
+        b2 = 0.96900 * b2 + white * 0.1538520;
+        b3 = 0.86650 * b3 + white * 0.3104856;
+        b4 = 0.55000 * b4 + white * 0.5329522;
+        b5 = -0.7616 * b5 - white * 0.0168980;
+        const pink = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
+        b6 = white * 0.115926;
+        data[i] = pink * 0.11;
+    }
+}
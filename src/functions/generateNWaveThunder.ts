@@ -0,0 +1,167 @@
+import { Random } from "../types/Random";
+
+/** The lightning channel a thunder is built from, resolved from the thunder params. */
+export interface LightningChannel {
+    /** Horizontal distance from the listener to where the channel starts, in m. */
+    distance: number;
+    /** Length of the channel, in m. */
+    length: number;
+    /** 0 is a straight channel, 1 a very jagged one. */
+    tortuosity: number;
+    /** Angle above the horizon in degrees: 90 is a vertical cloud-to-ground stroke, 0 a horizontal cloud flash. */
+    orientation: number;
+}
+
+/** How a thunder sounds on top of its channel, resolved from the thunder params. */
+export interface NWaveShape {
+    /** Return strokes down the same channel, each sending its N-waves again. */
+    strokes: number;
+    /** Cutoff of a gentle lowpass over the whole thunder, in Hz. */
+    filterFreq: number;
+    /** Time constant of the thunder's fade from the first arrival, in s. */
+    decay: number;
+}
+
+// A single stroke, neither filtered nor faded
+const PLAIN_SHAPE: NWaveShape = { strokes: 1, filterFreq: Infinity, decay: Infinity };
+
+const SPEED_OF_SOUND = 343;
+const SEGMENT_LENGTH = 10;
+const MAX_SEGMENTS = 2000;
+// Height of a horizontal channel; a vertical one starts on the ground
+const CLOUD_BASE = 2000;
+// N-wave length at 1 km; it stretches with the fourth root of the distance
+const NWAVE_LENGTH = 0.015;
+// The shock front's rise time grows with distance, which dulls far segments
+const RISE_PER_METER = 0.5e-6;
+// Segments radiate mostly broadside; this much is heard end-on
+const DIRECTIVITY_FLOOR = 0.05;
+// How long a bend of the channel persists, per segment
+const WANDER_MEMORY = 0.9;
+// Thunders whose nearest segment is this close play at full level; farther ones fall off as 1 / range
+const REFERENCE_RANGE = 1000;
+const MIN_LEVEL = 0.05;
+// Return strokes follow each other 40 to 100 ms apart
+const STROKE_GAP = 0.04;
+const STROKE_GAP_SPREAD = 0.06;
+
+/**
+ * Generates the stereo channel data of a thunder built from a randomized
+ * tortuous lightning channel: every segment of the channel sends an N-wave
+ * that arrives after its distance over the speed of sound, loudest when the
+ * segment lies broadside to the listener. The data starts at the first
+ * arrival and peaks at 1 when the channel comes within 1 km, quieter the
+ * farther its nearest segment is. `shape` repeats the N-waves for every
+ * return stroke, then lowpasses and fades the whole thunder. Shared by the
+ * Web Audio generators and the headless renderer.
+ */
+export function generateNWaveThunder(
+    sampleRate: number,
+    channel: LightningChannel,
+    panRange: number,
+    random: Random,
+    shape: NWaveShape = PLAIN_SHAPE
+): Float32Array[] {
+    const distance = Math.max(50, channel.distance);
+    const length = Math.max(SEGMENT_LENGTH, channel.length);
+    const tortuosity = Math.min(1, Math.max(0, channel.tortuosity));
+    const tilt = Math.min(90, Math.max(0, channel.orientation)) * Math.PI / 180;
+    const gauss = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+    // Random walk around the main direction, starting at a random bearing
+    const heading = random() * 2 * Math.PI;
+    const main = [Math.cos(tilt) * Math.cos(heading), Math.cos(tilt) * Math.sin(heading), Math.sin(tilt)];
+    const bearing = random() * 2 * Math.PI;
+    const position = [distance * Math.sin(bearing), distance * Math.cos(bearing), CLOUD_BASE * Math.cos(tilt)];
+    const wander = [0, 0, 0];
+
+    const count = Math.min(MAX_SEGMENTS, Math.ceil(length / SEGMENT_LENGTH));
+    const segments: { range: number; amplitude: number; pan: number; period: number }[] = [];
+    for (let i = 0; i < count; i++) {
+        const direction = main.map((value, k) => {
+            wander[k] = wander[k] * WANDER_MEMORY + 0.3 * gauss();
+            return value + 1.5 * tortuosity * (wander[k] + 0.5 * gauss());
+        });
+        const norm = Math.hypot(...direction);
+        direction.forEach((_, k) => direction[k] /= norm);
+        // Channels don't go underground
+        if (position[2] + direction[2] * SEGMENT_LENGTH < 0) direction[2] = -direction[2];
+
+        const middle = position.map((value, k) => value + direction[k] * SEGMENT_LENGTH / 2);
+        position.forEach((_, k) => position[k] += direction[k] * SEGMENT_LENGTH);
+
+        const range = Math.hypot(...middle);
+        const along = Math.abs(direction[0] * middle[0] + direction[1] * middle[1] + direction[2] * middle[2]) / range;
+        const broadside = Math.pow(1 - along * along, 4);
+        segments.push({
+            range,
+            amplitude: (DIRECTIVITY_FLOOR + (1 - DIRECTIVITY_FLOOR) * broadside) * (0.5 + random()) / range,
+            pan: panRange * middle[0] / Math.max(1, Math.hypot(middle[0], middle[1])),
+            period: NWAVE_LENGTH * Math.pow(range / 1000, 0.25) * (0.5 + random()),
+        });
+    }
+
+    const nearest = Math.min(...segments.map(segment => segment.range));
+    const farthest = Math.max(...segments.map(segment => segment.range));
+
+    // Later return strokes light up the same channel, weaker than the first
+    const strokes = [{ offset: 0, gain: 1 }];
+    for (let i = 1; i < Math.round(shape.strokes); i++) {
+        strokes.push({
+            offset: strokes[i - 1].offset + STROKE_GAP + STROKE_GAP_SPREAD * random(),
+            gain: 0.4 + 0.4 * random(),
+        });
+    }
+    const lastStroke = strokes[strokes.length - 1].offset;
+
+    const frames = Math.ceil(((farthest - nearest) / SPEED_OF_SOUND + lastStroke + 0.2 + farthest * RISE_PER_METER * 2) * sampleRate);
+    const data = [new Float32Array(frames), new Float32Array(frames)];
+
+    // N-wave: a rise to +1, a linear fall to -1, and a rise back to 0
+    strokes.forEach(stroke => segments.forEach(({ range, amplitude, pan, period }) => {
+        const start = Math.round(((range - nearest) / SPEED_OF_SOUND + stroke.offset) * sampleRate);
+        const rise = Math.max(1, Math.round(range * RISE_PER_METER * sampleRate));
+        const fall = Math.max(2, Math.round(period * sampleRate));
+        const angle = (Math.min(1, Math.max(-1, pan)) + 1) * Math.PI / 4;
+        const gains = [Math.cos(angle) * amplitude * stroke.gain, Math.sin(angle) * amplitude * stroke.gain];
+
+        for (let i = 0; i < rise * 2 + fall && start + i < frames; i++) {
+            const value = i < rise ? i / rise
+                : i < rise + fall ? 1 - 2 * (i - rise) / fall
+                : -1 + (i - rise - fall) / rise;
+            data[0][start + i] += value * gains[0];
+            data[1][start + i] += value * gains[1];
+        }
+    }));
+
+    // One-pole lowpass and exponential fade
+    const smoothing = 1 - Math.exp(-2 * Math.PI * shape.filterFreq / sampleRate);
+    data.forEach(channelData => {
+        let lowpassed = 0;
+        channelData.forEach((value, i) => {
+            lowpassed += smoothing * (value - lowpassed);
+            channelData[i] = lowpassed * Math.exp(-i / sampleRate / shape.decay);
+        });
+    });
+
+    // The shape is normalized, the level follows the distance
+    const level = Math.min(1, Math.max(MIN_LEVEL, REFERENCE_RANGE / nearest));
+    let peak = 0;
+    data.forEach(channelData => channelData.forEach(value => peak = Math.max(peak, Math.abs(value))));
+    if (peak > 0) data.forEach(channelData => channelData.forEach((value, i) => channelData[i] = value / peak * level));
+
+    return data;
+}
+
+export function createNWaveThunderBuffer(
+    ctx: BaseAudioContext,
+    channel: LightningChannel,
+    panRange: number,
+    random: Random,
+    shape?: NWaveShape
+): AudioBuffer {
+    const data = generateNWaveThunder(ctx.sampleRate, channel, panRange, random, shape);
+    const buffer = ctx.createBuffer(data.length, data[0].length, ctx.sampleRate);
+    data.forEach((channelData, i) => buffer.copyToChannel(channelData, i));
+    return buffer;
+}
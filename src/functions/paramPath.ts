@@ -0,0 +1,51 @@
+import { isRecordSchema } from "./validateParams";
+
+export function getAtPath(obj: unknown, path: string): unknown {
+    return path.split(".").reduce<unknown>(
+        (node, key) => (node === undefined || node === null ? undefined : (node as Record<string, unknown>)[key]),
+        obj
+    );
+}
+
+/**
+ * Returns a copy of `obj` with `value` set at `path`. Only the objects along
+ * the path are cloned; everything else is shared with the original.
+ */
+export function setAtPath<T>(obj: T, path: string[], value: unknown): T {
+    if (path.length === 0) return value as T;
+    const [head, ...rest] = path;
+    const source = (obj ?? {}) as Record<string, unknown>;
+    return { ...source, [head]: setAtPath(source[head], rest, value) } as T;
+}
+
+/**
+ * A change at `changedPath` affects a subscriber of `path` when one of the
+ * two is the other or one of its ancestors.
+ */
+export function pathsOverlap(path: string, changedPath: string): boolean {
+    return path === changedPath
+        || changedPath.startsWith(`${path}.`)
+        || path.startsWith(`${changedPath}.`);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns a copy of `base` with `patch` laid over it. Plain objects are
+ * merged recursively; arrays and other values in `patch` replace the base's.
+ * With a `schema`, objects keyed by user-chosen names (`recordSchema`) are
+ * replaced whole too, so a name left out of the patch is removed.
+ */
+export function deepMerge<T>(base: T, patch: unknown, schema?: unknown): T {
+    if (!isPlainObject(base) || !isPlainObject(patch) || isRecordSchema(schema)) {
+        return (patch === undefined ? base : patch) as T;
+    }
+
+    const merged: Record<string, unknown> = { ...base };
+    Object.entries(patch).forEach(([key, value]) => {
+        merged[key] = deepMerge(base[key], value, isPlainObject(schema) ? schema[key] : undefined);
+    });
+    return merged as T;
+}
@@ -0,0 +1,14 @@
+import { Random } from "../types/Random";
+
+/** Picks one of `keys` by weight, or `null` when every weight is 0. Draws nothing from `random` then. */
+export function pickByWeight<K extends string>(keys: readonly K[], weights: Partial<Record<K, number>>, random: Random): K | null {
+    const total = keys.reduce((sum, key) => sum + (weights[key] ?? 0), 0);
+    if (total <= 0) return null;
+
+    let pick = random() * total;
+    for (const key of keys) {
+        pick -= weights[key] ?? 0;
+        if (pick < 0) return key;
+    }
+    return keys[keys.length - 1];
+}
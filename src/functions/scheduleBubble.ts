@@ -0,0 +1,33 @@
+export interface BubbleOptions {
+    /** Resonance frequency at the start, in Hz. */
+    freq: number;
+    /** Time constant of the exponential decay, in seconds. */
+    decay: number;
+    /** Pitch rise over the bubble's life, as a ratio (0.3 = +30%). */
+    rise: number;
+    amp: number;
+}
+
+/**
+ * Schedules one bubble resonance into `destination`: a sine that rings down
+ * exponentially while its pitch rises, like an air bubble shrinking as it
+ * nears the surface.
+ */
+export function scheduleBubble(ctx: BaseAudioContext, destination: AudioNode, time: number, options: BubbleOptions) {
+    const { freq, decay, rise, amp } = options;
+    const length = decay * 6;
+
+    const osc = ctx.createOscillator();
+    osc.type = "sine";
+    osc.frequency.setValueAtTime(freq, time);
+    osc.frequency.exponentialRampToValueAtTime(freq * (1 + rise), time + length);
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, time);
+    gain.gain.linearRampToValueAtTime(amp, time + 0.001);
+    gain.gain.setTargetAtTime(0, time + 0.001, decay);
+
+    osc.connect(gain).connect(destination);
+    osc.start(time);
+    osc.stop(time + length);
+}
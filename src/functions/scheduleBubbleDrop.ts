@@ -0,0 +1,81 @@
+import { Random } from "../types/Random";
+import { DropSizeDistribution } from "../types/DropModel";
+import { scheduleBubble } from "./scheduleBubble";
+
+// Radius of the bubble a drop traps, relative to the drop's radius
+const BUBBLE_RATIO = 0.5;
+// Pitch rise per unit of damping (van den Doel's ξ)
+const RISE = 0.1;
+const MIN_RADIUS = 0.1;
+const MAX_RADIUS = 5;
+
+/**
+ * Draws a drop radius in mm around `mean`. `spread` (0..1) is the relative
+ * width of the distribution; at 1 an exponential distribution is a pure
+ * exponential, at 0 every drop has the mean radius.
+ */
+export function sampleDropRadius(mean: number, spread: number, distribution: DropSizeDistribution, random: Random): number {
+    let radius: number;
+    switch (distribution) {
+        case "normal": {
+            // Box-Muller
+            const gauss = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+            radius = mean * (1 + spread * gauss);
+            break;
+        }
+        case "exponential":
+            radius = mean * (1 - spread + spread * -Math.log(1 - random()));
+            break;
+        default:
+            radius = mean * (1 + spread * (random() * 2 - 1));
+    }
+    return Math.min(MAX_RADIUS, Math.max(MIN_RADIUS, radius));
+}
+
+/**
+ * Schedules a drop of `radius` mm hitting water: a short impact click and,
+ * if `bubble` is set, the trapped air bubble ringing at its Minnaert
+ * frequency with a rising pitch. Damping follows van den Doel's model of
+ * rain bubbles, so small bubbles are high and short. `noiseBuffer` is any
+ * white noise at least a second long. Returns the bubble (or click) frequency.
+ */
+export function scheduleBubbleDrop(
+    ctx: BaseAudioContext,
+    destination: AudioNode,
+    time: number,
+    radius: number,
+    bubble: boolean,
+    noiseBuffer: AudioBuffer,
+    random: Random,
+    level: number = 1
+): number {
+    const size = radius / 2;
+    const clickFreq = Math.min(12000, 4000 / Math.sqrt(size));
+
+    const click = ctx.createBufferSource();
+    click.buffer = noiseBuffer;
+    const highpass = ctx.createBiquadFilter();
+    highpass.type = "highpass";
+    highpass.frequency.value = Math.min(clickFreq, ctx.sampleRate / 2 - 100);
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(0.3 * level * size, time);
+    env.gain.exponentialRampToValueAtTime(0.001, time + 0.002);
+    click.connect(highpass).connect(env).connect(destination);
+    click.start(time, random() * (noiseBuffer.duration - 0.01));
+    click.stop(time + 0.01);
+
+    if (!bubble) return clickFreq;
+
+    // Minnaert: f ≈ 3.26 m/s / bubble radius
+    const bubbleRadius = (radius / 1000) * BUBBLE_RATIO * (0.8 + random() * 0.4);
+    const freq = Math.min(3.26 / bubbleRadius, ctx.sampleRate / 2 - 100);
+    const damping = 0.043 * freq + 0.0014 * Math.pow(freq, 1.5);
+    scheduleBubble(ctx, destination, time + 0.001, {
+        freq,
+        decay: 1 / damping,
+        // The pitch rises by ξ·d per second over the bubble's 6 time constants
+        rise: 6 * RISE,
+        amp: level * Math.min(1, Math.pow(size, 1.5)) * 0.5,
+    });
+    return freq;
+}
@@ -0,0 +1,10 @@
+/**
+ * Shapes one gust on `param`: it swells towards `strength` over the first 40%
+ * of `duration` and dies back down over the rest. Both legs approach their
+ * target exponentially, so overlapping gusts blend instead of jumping.
+ */
+export function scheduleGust(param: AudioParam, when: number, strength: number, duration: number) {
+    const attack = duration * 0.4;
+    param.setTargetAtTime(strength, when, attack / 3);
+    param.setTargetAtTime(0, when + attack, (duration - attack) / 3);
+}
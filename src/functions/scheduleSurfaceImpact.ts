@@ -0,0 +1,132 @@
+import { Random } from "../types/Random";
+import { ParamSchema } from "../types/ParamSchema";
+import { Surface, SurfaceWeights } from "../types/Surface";
+import { scheduleBubble } from "./scheduleBubble";
+import { pickByWeight } from "./pickByWeight";
+
+export interface SurfaceResonance {
+    freq: number;
+    q: number;
+    gain: number;
+}
+
+export interface SurfaceModel {
+    /** Bandpass resonances excited by the impact. */
+    resonances: SurfaceResonance[];
+    /** Random detuning of the resonances from drop to drop, as a ratio. */
+    spread: number;
+    /** Impact envelope of the noise burst, in seconds. */
+    attack: number;
+    decay: number;
+    level: number;
+    /** Share of drops that also ring a bubble. */
+    bubbles?: number;
+}
+
+export const surfaceModels: Record<Surface, SurfaceModel> = {
+    // Sheet metal rings in a few bright, barely damped modes
+    tin: {
+        resonances: [{ freq: 1800, q: 300, gain: 1 }, { freq: 3100, q: 250, gain: 0.6 }, { freq: 4700, q: 200, gain: 0.4 }, { freq: 6900, q: 150, gain: 0.25 }],
+        spread: 0.08, attack: 0.0005, decay: 0.004, level: 0.6,
+    },
+    glass: {
+        resonances: [{ freq: 3500, q: 40, gain: 1 }, { freq: 6200, q: 30, gain: 0.6 }, { freq: 9000, q: 20, gain: 0.4 }],
+        spread: 0.15, attack: 0.0002, decay: 0.006, level: 0.5,
+    },
+    // A slack membrane: a low thump with a little fabric slap on top
+    tent: {
+        resonances: [{ freq: 180, q: 8, gain: 1 }, { freq: 290, q: 6, gain: 0.6 }, { freq: 600, q: 3, gain: 0.3 }, { freq: 2500, q: 1, gain: 0.2 }],
+        spread: 0.2, attack: 0.001, decay: 0.03, level: 1,
+    },
+    // Smaller and tighter than a tent, so higher and more drum-like
+    umbrella: {
+        resonances: [{ freq: 450, q: 10, gain: 1 }, { freq: 720, q: 8, gain: 0.6 }, { freq: 1400, q: 4, gain: 0.4 }, { freq: 3000, q: 1.5, gain: 0.25 }],
+        spread: 0.15, attack: 0.001, decay: 0.025, level: 0.8,
+    },
+    leaves: {
+        resonances: [{ freq: 2500, q: 1.5, gain: 1 }, { freq: 5000, q: 1, gain: 0.6 }],
+        spread: 0.5, attack: 0.001, decay: 0.02, level: 0.5,
+    },
+    puddle: {
+        resonances: [{ freq: 1000, q: 2, gain: 0.5 }, { freq: 4000, q: 1, gain: 0.4 }],
+        spread: 0.3, attack: 0.0005, decay: 0.01, level: 0.4, bubbles: 0.6,
+    },
+    concrete: {
+        resonances: [{ freq: 1500, q: 0.8, gain: 1 }, { freq: 4000, q: 0.7, gain: 0.5 }],
+        spread: 0.3, attack: 0.0002, decay: 0.008, level: 0.5,
+    },
+};
+
+export const surfaces = Object.keys(surfaceModels) as Surface[];
+
+export const _defaultSurfaceWeights: SurfaceWeights = {
+    tin: 0, glass: 0, tent: 0, umbrella: 0, leaves: 0, puddle: 0, concrete: 0,
+};
+
+export const surfaceWeightsSchema = Object.fromEntries(surfaces.map(surface => [
+    surface,
+    { kind: "number", min: 0, max: 1, unit: "", default: 0, description: `Share of drops landing on ${surface}` },
+])) as ParamSchema<SurfaceWeights>;
+
+/** Picks a surface by weight, or `null` when every weight is 0. */
+export function pickSurface(weights: SurfaceWeights, random: Random): Surface | null {
+    return pickByWeight(surfaces, weights, random);
+}
+
+/**
+ * Schedules one drop hitting `surface`: a short noise burst shaped by the
+ * surface's impact envelope, through its bank of resonant bandpass filters.
+ * `noiseBuffer` is any white noise at least a second long. Returns the
+ * frequency of the main resonance, for `drop` events.
+ */
+export function scheduleSurfaceImpact(
+    ctx: BaseAudioContext,
+    destination: AudioNode,
+    time: number,
+    surface: Surface,
+    noiseBuffer: AudioBuffer,
+    random: Random,
+    level: number = 1
+): number {
+    const model = surfaceModels[surface];
+    const amp = model.level * level;
+    const detune = 1 + (random() * 2 - 1) * model.spread;
+
+    const noise = ctx.createBufferSource();
+    noise.buffer = noiseBuffer;
+
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(0, time);
+    env.gain.linearRampToValueAtTime(amp, time + model.attack);
+    env.gain.exponentialRampToValueAtTime(0.001, time + model.attack + model.decay);
+    noise.connect(env);
+
+    // Narrow resonances pass little of the burst, so they get makeup gain
+    model.resonances.forEach(({ freq, q, gain }) => {
+        const f = Math.min(freq * detune * (1 + (random() * 2 - 1) * 0.02), ctx.sampleRate / 2 - 100);
+        const filter = ctx.createBiquadFilter();
+        filter.type = "bandpass";
+        filter.frequency.value = f;
+        filter.Q.value = q;
+
+        const makeup = ctx.createGain();
+        makeup.gain.value = gain * Math.sqrt(q);
+        env.connect(filter).connect(makeup).connect(destination);
+    });
+
+    if (model.bubbles && random() < model.bubbles) {
+        scheduleBubble(ctx, destination, time + 0.003, {
+            freq: 800 + random() * 1700,
+            decay: 0.01 + random() * 0.02,
+            rise: 0.3,
+            amp: amp * 0.5,
+        });
+    }
+
+    const length = model.attack + model.decay;
+    noise.start(time, random() * Math.max(0, noiseBuffer.duration - length));
+    // The filters ring on after the burst has stopped
+    noise.stop(time + length + 0.01);
+
+    return model.resonances[0].freq * detune;
+}
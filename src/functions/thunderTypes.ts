@@ -0,0 +1,92 @@
+import { Random } from "../types/Random";
+import { RandParam } from "../types/RandParam";
+import { ParamSchema } from "../types/ParamSchema";
+import { ThunderModel } from "../types/ThunderModel";
+import { ThunderType, ThunderTypeWeights } from "../types/ThunderType";
+import { pickByWeight } from "./pickByWeight";
+import { validateParams } from "./validateParams";
+
+/** The thunder params a type can scale; volume, EQ and delay stay with the storm. */
+export type ThunderTypeScaledParam =
+    | "duration" | "filterFreq" | "burstCount" | "reverbWetLevel" | "subLevel" | "panRange" | "highPassFreq"
+    | "crackleAmount" | "rumbleFreqEnd" | "rumbleVolume" | "rumbleDecay"
+    | "distance" | "channelLength" | "tortuosity" | "orientation";
+
+export interface ThunderTypePreset {
+    model: ThunderModel;
+    /** Factors on the storm's value and spread of each param; params left out play as they are. */
+    scales: Partial<Record<ThunderTypeScaledParam, number>>;
+}
+
+/**
+ * Every thunder type, as factors on the storm's params relative to the
+ * defaults, so a near or far storm stays near or far whatever the type.
+ */
+export const thunderTypePresets: Record<ThunderType, ThunderTypePreset> = {
+    // A short, straight stroke overhead: one sharp crack and a short tail
+    closeCrack: {
+        model: "nwave",
+        scales: {
+            distance: 0.15, channelLength: 0.5, tortuosity: 0.75, orientation: 1.15, highPassFreq: 2, panRange: 0.6, reverbWetLevel: 0.5,
+            burstCount: 0.34, filterFreq: 8, duration: 0.3,
+        },
+    },
+    // A jagged stroke at a middle distance: a crack breaking into a loud roll, hit again by return strokes
+    cloudToGround: {
+        model: "nwave",
+        scales: {
+            distance: 0.75, channelLength: 1.3, tortuosity: 1.25, orientation: 1.05, highPassFreq: 1.25, panRange: 0.8, reverbWetLevel: 0.9,
+            burstCount: 1.34, filterFreq: 2.5, duration: 1.5,
+        },
+    },
+    // A long horizontal flash in the clouds: no crack, a dull roll that moves across the sky
+    intracloudRoll: {
+        model: "nwave",
+        scales: {
+            distance: 2, channelLength: 2.7, tortuosity: 0.75, orientation: 0.07, reverbWetLevel: 1.25,
+            burstCount: 0.34, filterFreq: 0.4, duration: 4,
+        },
+    },
+    // Far away: slow, dull bursts over a long low rumble
+    distantRumble: {
+        model: "classic",
+        scales: {
+            duration: 2.5, filterFreq: 0.33, burstCount: 0.67, crackleAmount: 0.2, subLevel: 2, reverbWetLevel: 1.5,
+            rumbleFreqEnd: 0.9, rumbleVolume: 1.6, rumbleDecay: 1.5,
+        },
+    },
+};
+
+type ThunderTypeParams = { model?: ThunderModel } & { [K in ThunderTypeScaledParam]?: RandParam };
+
+/**
+ * The params of one thunder of `type`: the type's model, and the storm's
+ * params scaled by its factors, clamped back into `schema`. Params missing
+ * from `params` are taken from `defaults` before scaling.
+ */
+export function applyThunderType<P extends ThunderTypeParams>(params: P, type: ThunderType, defaults: P, schema: ParamSchema<P>): P {
+    const { model, scales } = thunderTypePresets[type];
+    const scaled: Partial<P> = {};
+    (Object.keys(scales) as ThunderTypeScaledParam[]).forEach(key => {
+        const param = params[key] ?? defaults[key];
+        const scale = scales[key]!;
+        if (param) scaled[key] = { ...param, value: param.value * scale, dist: param.dist * scale } as P[typeof key];
+    });
+    return { ...params, ...validateParams(schema, scaled, "clamp"), model };
+}
+
+export const thunderTypes = Object.keys(thunderTypePresets) as ThunderType[];
+
+export const _defaultThunderTypeWeights: ThunderTypeWeights = {
+    closeCrack: 0, cloudToGround: 0, intracloudRoll: 0, distantRumble: 0,
+};
+
+export const thunderTypeWeightsSchema = Object.fromEntries(thunderTypes.map(type => [
+    type,
+    { kind: "number", min: 0, max: 1, unit: "", default: 0, description: `Share of ${type} thunders` },
+])) as ParamSchema<ThunderTypeWeights>;
+
+/** Picks a thunder type by weight, or `null` when every weight is 0. */
+export function pickThunderType(weights: ThunderTypeWeights, random: Random): ThunderType | null {
+    return pickByWeight(thunderTypes, weights, random);
+}
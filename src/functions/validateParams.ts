@@ -0,0 +1,155 @@
+import { ArraySpec, ParamSchema, ParamSpec, ValidationMode } from "../types/ParamSchema";
+import { ParamValidationError, ParamValidationReason } from "../errors/ParamValidationError";
+
+function isSpec(node: unknown): node is ParamSpec {
+    return typeof node === "object" && node !== null && typeof (node as { kind?: unknown }).kind === "string";
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks the fields present in `params` against `schema` and returns a copy
+ * with every value inside its limits. In `"clamp"` mode out-of-range numbers
+ * are clamped and malformed values replaced by their default; in `"throw"`
+ * mode the first problem raises a `ParamValidationError`. Fields the schema
+ * doesn't know about are passed through untouched, and objects that are
+ * already valid are returned as-is rather than copied.
+ */
+export function validateParams<T>(
+    schema: ParamSchema<T>,
+    params: Partial<T>,
+    mode: ValidationMode = "clamp",
+    basePath: string = ""
+): Partial<T> {
+    const result: Record<string, unknown> = { ...params };
+    let changed = false;
+
+    for (const [key, value] of Object.entries(params)) {
+        const node = (schema as Record<string, unknown>)[key];
+        if (value === undefined || node === undefined) continue;
+
+        const path = basePath ? `${basePath}.${key}` : key;
+        if (isSpec(node)) {
+            result[key] = validateValue(node, value, mode, path);
+        } else if (isObject(value)) {
+            result[key] = validateParams(node as ParamSchema<unknown>, value, mode, path);
+        } else if (mode === "throw") {
+            throw new ParamValidationError(path, value, "type", undefined, "expected an object");
+        } else {
+            delete result[key];
+        }
+
+        changed = changed || result[key] !== value;
+    }
+
+    return (changed ? result : params) as Partial<T>;
+}
+
+// Keeps the original object when none of the checked fields changed
+function patch(original: Record<string, unknown>, fields: Record<string, unknown>): Record<string, unknown> {
+    return Object.keys(fields).every(key => original[key] === fields[key]) ? original : { ...original, ...fields };
+}
+
+function validateValue(spec: ParamSpec, value: unknown, mode: ValidationMode, path: string): unknown {
+    const reject = <V>(reason: ParamValidationReason, message: string, fallback: V, at: string = path): V => {
+        if (mode === "throw") throw new ParamValidationError(at, value, reason, spec, message);
+        return fallback;
+    };
+
+    const checkNumber = (n: unknown, min: number, max: number, fallback: number, at: string, integer = false): number => {
+        if (typeof n !== "number" || !Number.isFinite(n)) {
+            return reject("type", "expected a finite number", fallback, at);
+        }
+        const rounded = integer ? Math.round(n) : n;
+        if (rounded < min || rounded > max) {
+            const unit = "unit" in spec && spec.unit ? ` ${spec.unit}` : "";
+            return reject("range", `expected ${min}..${max}${unit}, got ${n}`, Math.min(max, Math.max(min, rounded)), at);
+        }
+        return rounded;
+    };
+
+    switch (spec.kind) {
+        case "number":
+            return checkNumber(value, spec.min, spec.max, spec.default, path, spec.integer);
+
+        case "osc":
+            if (!isObject(value)) return reject("type", "expected an OscParam", { ...spec.default });
+            return patch(value, {
+                value: checkNumber(value.value, spec.min, spec.max, spec.default.value, `${path}.value`),
+                amp: checkNumber(value.amp, 0, Infinity, spec.default.amp, `${path}.amp`),
+                freq: checkNumber(value.freq, 0, Infinity, spec.default.freq, `${path}.freq`),
+            });
+
+        case "rand":
+            if (!isObject(value)) return reject("type", "expected a RandParam", { ...spec.default });
+            return patch(value, {
+                value: checkNumber(value.value, spec.min, spec.max, spec.default.value, `${path}.value`),
+                dist: checkNumber(value.dist, 0, spec.max - spec.min, spec.default.dist, `${path}.dist`),
+            });
+
+        case "range": {
+            if (!isObject(value)) return reject("type", "expected a { min, max } range", { ...spec.default });
+            const min = checkNumber(value.min, spec.min, spec.max, spec.default.min, `${path}.min`);
+            const max = checkNumber(value.max, spec.min, spec.max, spec.default.max, `${path}.max`);
+            if (min > max) {
+                return reject("range", `min (${min}) exceeds max (${max})`, { ...value, min: max, max: min });
+            }
+            return patch(value, { min, max });
+        }
+
+        case "enum":
+            if (typeof value === "string" && spec.values.includes(value)) return value;
+            return reject("enum", `expected one of ${spec.values.join(", ")}`, spec.default);
+
+        case "boolean":
+            return typeof value === "boolean" ? value : reject("type", "expected a boolean", spec.default);
+
+        case "array": {
+            if (!Array.isArray(value)) return reject("type", "expected an array", [...spec.default]);
+            const { item } = spec;
+            let items = value.map((n, i) => checkNumber(n, item.min, item.max, item.default, `${path}.${i}`, item.integer));
+            if (items.length === spec.length && items.every((n, i) => n === value[i])) return value;
+            if (items.length !== spec.length) {
+                items = reject(
+                    "length",
+                    `expected ${spec.length} items, got ${items.length}`,
+                    Array.from({ length: spec.length }, (_, i) => items[i] ?? item.default)
+                );
+            }
+            return items;
+        }
+    }
+}
+
+/**
+ * Spec of the `eqGains` arrays used by the controllers and generators.
+ */
+export function eqGainsSpec(length: number = 10): ArraySpec {
+    return {
+        kind: "array",
+        length,
+        item: { kind: "number", min: -40, max: 40, unit: "dB", default: 0 },
+        default: new Array(length).fill(0),
+        description: `Gains of the ${length} EQ bands`,
+    };
+}
+
+// Marks the schemas made by `recordSchema`
+const RECORD = Symbol("record");
+
+/**
+ * Schema of an object keyed by user-chosen names, like the rain's drop
+ * layers: every key is validated against `item`.
+ */
+export function recordSchema<T>(item: ParamSchema<T>): ParamSchema<Record<string, T>> {
+    return new Proxy({}, {
+        get: (_, key) => (key === RECORD ? true : typeof key === "string" ? item : undefined),
+    }) as ParamSchema<Record<string, T>>;
+}
+
+/** Whether a schema node was made by `recordSchema`. */
+export function isRecordSchema(node: unknown): boolean {
+    return typeof node === "object" && node !== null && (node as Record<symbol, unknown>)[RECORD] === true;
+}
@@ -0,0 +1,153 @@
+import { RainParams } from "../RainGenerator";
+import { OscParam } from "../types/OscParam";
+import { Random } from "../types/Random";
+import { fillNoise } from "../functions/fillNoise";
+import { generateImpulseResponse } from "../functions/createImpulseResponse";
+import { Biquad } from "./dsp/Biquad";
+import { EqChain } from "./dsp/EqChain";
+import { PartitionedConvolver } from "./dsp/PartitionedConvolver";
+import { normalizeImpulseResponse } from "./dsp/normalizeImpulseResponse";
+import { panGains } from "./dsp/panGains";
+import { mixVoices, Voice } from "./Voice";
+
+// Filter coefficients that follow an LFO are refreshed at this frame interval
+const CONTROL_RATE = 64;
+// Length of each noise buffer and of the crossfade into the next one, in seconds
+const NOISE_DURATION = 2;
+const NOISE_FADE = 0.05;
+
+/**
+ * Pure-TypeScript rendition of the V1 `RainGenerator` graph.
+ */
+export class HeadlessRain {
+    private readonly eqFrequencies = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+    private noiseBuffer: Float32Array;
+    private noisePosition = 0;
+    private noiseLength: number;
+    private noiseFade: number;
+    private noiseFilter: Biquad;
+    private reverb: PartitionedConvolver;
+    private eq: EqChain;
+    private voices: Voice[] = [];
+    private nextDropFrame: number;
+    private dry: Float32Array[];
+    private send: Float32Array[];
+    private wet: Float32Array[];
+
+    constructor(
+        private sampleRate: number,
+        private params: RainParams,
+        private random: Random,
+        private blockSize: number
+    ) {
+        const ir = generateImpulseResponse(sampleRate, 2, 2.5, random);
+        // Scaled like a ConvolverNode's buffer, so the reverb matches the browser's level
+        this.reverb = new PartitionedConvolver(normalizeImpulseResponse(ir, sampleRate), blockSize);
+        this.noiseLength = Math.floor(NOISE_DURATION * sampleRate);
+        this.noiseFade = Math.floor(NOISE_FADE * sampleRate);
+        this.noiseBuffer = fillNoise(new Float32Array(this.noiseLength + this.noiseFade), params.noiseType, random);
+        this.noiseFilter = new Biquad("lowpass", sampleRate, params.noiseFilterFreq.value);
+        this.eq = new EqChain(sampleRate, this.eqFrequencies, params.eqGains);
+        this.nextDropFrame = this.dropInterval();
+        this.dry = [new Float32Array(blockSize), new Float32Array(blockSize)];
+        this.send = [new Float32Array(blockSize), new Float32Array(blockSize)];
+        this.wet = [new Float32Array(blockSize), new Float32Array(blockSize)];
+    }
+
+    /**
+     * Renders the next block and adds it to `out`.
+     */
+    process(blockStart: number, out: Float32Array[]) {
+        const { blockSize, sampleRate, params, dry, send, wet } = this;
+        const blockEnd = blockStart + blockSize;
+
+        dry.forEach(channel => channel.fill(0));
+        send.forEach(channel => channel.fill(0));
+        wet.forEach(channel => channel.fill(0));
+
+        // Noise bed: fresh noise buffers → gain → lowpass → noise level, upmixed to stereo
+        const noise = dry[0];
+        const noiseGain = params.volume * 0.4;
+        for (let i = 0; i < blockSize; i++) {
+            if (this.noisePosition === this.noiseLength) this.refillNoise();
+            noise[i] = this.noiseBuffer[this.noisePosition++] * noiseGain;
+        }
+        for (let i = 0; i < blockSize; i += CONTROL_RATE) {
+            const freq = this.oscValue(params.noiseFilterFreq, (blockStart + i) / sampleRate);
+            this.noiseFilter.setParams(freq);
+            this.noiseFilter.process(noise, i, Math.min(i + CONTROL_RATE, blockSize));
+        }
+        for (let i = 0; i < blockSize; i++) {
+            noise[i] *= params.noiseLevel;
+        }
+        dry[1].set(noise);
+
+        // Drops fire on a fixed interval like the browser's setInterval loop
+        while (this.nextDropFrame < blockEnd) {
+            this.voices.push(this.createDrop(this.nextDropFrame));
+            this.nextDropFrame += this.dropInterval();
+        }
+        this.voices = mixVoices(this.voices, blockStart, blockSize, dry, send);
+
+        this.reverb.process(send, wet);
+        for (let i = 0; i < blockSize; i++) {
+            const wetLevel = this.oscValue(params.dropReverbLevel, (blockStart + i) / sampleRate);
+            dry[0][i] += wet[0][i] * wetLevel;
+            dry[1][i] += wet[1][i] * wetLevel;
+        }
+
+        this.eq.process(dry, 0, blockSize);
+        for (let i = 0; i < blockSize; i++) {
+            out[0][i] += dry[0][i] * params.volume;
+            out[1][i] += dry[1][i] * params.volume;
+        }
+    }
+
+    private createDrop(start: number): Voice {
+        const { sampleRate, params } = this;
+        const duration = Math.min(params.dropDecayTime, 0.2);
+        const length = Math.floor(sampleRate * duration);
+        // Leave room for the bandpass to ring out after the buffer ends
+        const data = new Float32Array(length + Math.floor(sampleRate * 0.05));
+        for (let i = 0; i < length; i++) {
+            const fade = Math.pow(1 - i / length, 2.5);
+            data[i] = (this.random() * 2 - 1) * fade;
+        }
+
+        const pitch = params.dropMinPitch.value + this.random() * (params.dropMaxPitch.value - params.dropMinPitch.value);
+        new Biquad("bandpass", sampleRate, pitch, params.dropQ).process(data);
+
+        const [left, right] = panGains((this.random() * 2 - 1) * params.dropPanRange.value);
+        const dryLevel = params.dropDryLevel * params.dropDryLevel;
+        const dry = [new Float32Array(data.length), new Float32Array(data.length)];
+        const send = [new Float32Array(data.length), new Float32Array(data.length)];
+        for (let i = 0; i < data.length; i++) {
+            dry[0][i] = data[i] * left * dryLevel;
+            dry[1][i] = data[i] * right * dryLevel;
+            send[0][i] = data[i] * left * params.dropWetLevel;
+            send[1][i] = data[i] * right * params.dropWetLevel;
+        }
+
+        return { start, dry, send };
+    }
+
+    private dropInterval(): number {
+        return this.params.dropRate > 0 ? Math.max(1, Math.round(this.sampleRate / this.params.dropRate)) : Infinity;
+    }
+
+    // Replaces the played buffer with new noise, crossfaded from the old tail so the bed never loops
+    private refillNoise() {
+        const { noiseBuffer, noiseLength, noiseFade } = this;
+        const tail = noiseBuffer.slice(noiseLength);
+        fillNoise(noiseBuffer, this.params.noiseType, this.random);
+        for (let i = 0; i < noiseFade; i++) {
+            const x = (i / noiseFade) * Math.PI / 2;
+            noiseBuffer[i] = noiseBuffer[i] * Math.sin(x) + tail[i] * Math.cos(x);
+        }
+        this.noisePosition = 0;
+    }
+
+    private oscValue(param: OscParam, time: number): number {
+        return param.osc ? param.value + Math.sin(2 * Math.PI * param.freq * time) * param.amp : param.value;
+    }
+}
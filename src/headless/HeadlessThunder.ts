@@ -0,0 +1,257 @@
+import { ThunderParams, _defaultThunderParams, thunderParamsSchema } from "../ThunderGenerator";
+import { RandParam } from "../types/RandParam";
+import { Random } from "../types/Random";
+import { generateImpulseResponse } from "../functions/createImpulseResponse";
+import { generateNWaveThunder } from "../functions/generateNWaveThunder";
+import { applyThunderType, pickThunderType } from "../functions/thunderTypes";
+import { Biquad } from "./dsp/Biquad";
+import { EqChain } from "./dsp/EqChain";
+import { ParamTimeline } from "./dsp/ParamTimeline";
+import { PartitionedConvolver } from "./dsp/PartitionedConvolver";
+import { normalizeImpulseResponse } from "./dsp/normalizeImpulseResponse";
+import { panGains } from "./dsp/panGains";
+import { mixVoices, Voice } from "./Voice";
+
+const CONTROL_RATE = 64;
+
+/**
+ * Pure-TypeScript rendition of the V1 `ThunderGenerator` graph. The generated
+ * reverb is always enabled, as if `setGeneratedReverb()` had been called.
+ */
+export class HeadlessThunder {
+    private readonly eqFrequencies = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+    private reverb: PartitionedConvolver;
+    private eq: EqChain;
+    private voices: Voice[] = [];
+    private pending: Voice[] = [];
+    private dry: Float32Array[];
+    private send: Float32Array[];
+
+    constructor(
+        private sampleRate: number,
+        private params: ThunderParams,
+        private random: Random,
+        private blockSize: number
+    ) {
+        const ir = generateImpulseResponse(
+            sampleRate,
+            this.randValue(params.reverbDuration, 2),
+            this.randValue(params.reverbDecay, 2),
+            random
+        );
+        // Scaled like a ConvolverNode's buffer, so the reverb matches the browser's level
+        this.reverb = new PartitionedConvolver(normalizeImpulseResponse(ir, sampleRate), blockSize);
+        this.eq = new EqChain(sampleRate, this.eqFrequencies, params.eqGains);
+        this.dry = [new Float32Array(blockSize), new Float32Array(blockSize)];
+        this.send = [new Float32Array(blockSize), new Float32Array(blockSize)];
+    }
+
+    /**
+     * Schedules one thunder (rumble plus bursts, or N-waves) starting at `frame`.
+     */
+    trigger(frame: number) {
+        const { sampleRate } = this;
+        const type = pickThunderType(this.params.thunderTypes, this.random);
+        const params = type ? applyThunderType(this.params, type, _defaultThunderParams, thunderParamsSchema) : this.params;
+        if (params.model === "nwave") {
+            this.pending.push(this.createNWave(params, frame + Math.round((params.delayMs ?? 0) / 1000 * sampleRate)));
+            return;
+        }
+
+        const rumbleFreqStart = this.randValue(params.rumbleFreqStart, 30);
+        const rumbleFreqEnd = this.randValue(params.rumbleFreqEnd, 20);
+        const rumbleVolume = this.randValue(params.rumbleVolume, 0.2);
+        const rumbleDecay = this.randValue(params.rumbleDecay, 8);
+        const burstCount = this.randValue(params.burstCount, 1);
+        const duration = this.randValue(params.duration, 2);
+        const volume = this.randValue(params.volume, 0.5);
+
+        const start = frame + Math.round((params.delayMs ?? 0) / 1000 * sampleRate);
+        this.pending.push(this.createRumble(start, rumbleFreqStart, rumbleFreqEnd, rumbleVolume, rumbleDecay));
+
+        for (let i = 0; i < burstCount; i++) {
+            const burstDelay = 200 + this.random() * 400;
+            const burstStart = start + Math.round(burstDelay * i / 1000 * sampleRate);
+            this.pending.push(this.createBurst(
+                params,
+                burstStart,
+                duration * (0.8 + this.random() * 0.4),
+                volume * (0.7 + this.random() * 0.6)
+            ));
+        }
+    }
+
+    process(blockStart: number, out: Float32Array[]) {
+        const { blockSize, dry, send } = this;
+        const blockEnd = blockStart + blockSize;
+
+        dry.forEach(channel => channel.fill(0));
+        send.forEach(channel => channel.fill(0));
+
+        this.voices.push(...this.pending.filter(voice => voice.start < blockEnd));
+        this.pending = this.pending.filter(voice => voice.start >= blockEnd);
+        this.voices = mixVoices(this.voices, blockStart, blockSize, dry, send);
+
+        this.reverb.process(send, dry);
+        this.eq.process(dry, 0, blockSize);
+
+        for (let i = 0; i < blockSize; i++) {
+            out[0][i] += dry[0][i];
+            out[1][i] += dry[1][i];
+        }
+    }
+
+    private createRumble(start: number, freqStart: number, freqEnd: number, volume: number, decay: number): Voice {
+        const { sampleRate } = this;
+        const length = Math.max(1, Math.floor(decay * sampleRate));
+        const freq = new ParamTimeline(freqStart)
+            .setValueAtTime(freqStart, 0)
+            .linearRampToValueAtTime(freqEnd, decay)
+            .render(length, sampleRate);
+        const gain = new ParamTimeline(volume)
+            .setValueAtTime(volume, 0)
+            .exponentialRampToValueAtTime(0.001, decay)
+            .render(length, sampleRate);
+        const data = new Float32Array(length);
+
+        let phase = 0;
+        for (let i = 0; i < length; i++) {
+            data[i] = Math.sin(phase) * gain[i];
+            phase += 2 * Math.PI * freq[i] / sampleRate;
+        }
+
+        return { start, dry: [data, data] };
+    }
+
+    private createBurst(params: ThunderParams, start: number, duration: number, volume: number): Voice {
+        const { sampleRate } = this;
+        const filterFreq = this.randValue(params.filterFreq, 1500);
+        const highPassFreq = this.randValue(params.highPassFreq, 10);
+        const panRange = this.randValue(params.panRange, 1);
+        const reverbWetLevel = this.randValue(params.reverbWetLevel, 0.4);
+        const subLevel = this.randValue(params.subLevel, 0.1);
+        const crackleAmount = this.randValue(params.crackleAmount, 1);
+
+        const noiseLength = Math.floor(sampleRate * duration);
+        const length = Math.max(noiseLength + Math.floor(sampleRate * 0.05), Math.floor(sampleRate * duration * 2.5));
+
+        // Enveloped noise → swept lowpass → highpass → gain → pan
+        const body = new Float32Array(length);
+        for (let i = 0; i < noiseLength; i++) {
+            const buildUp = Math.min(1, i / (sampleRate * (duration * 0.25)));
+            const decay = Math.exp(-i / (sampleRate * duration));
+            const noise = (this.random() * 2 - 1) * Math.pow(this.random(), 2);
+            body[i] = noise * decay * buildUp;
+        }
+
+        const lowpassFreq = new ParamTimeline(filterFreq).setValueAtTime(filterFreq, 0).exponentialRampToValueAtTime(100, duration);
+        const lowpass = new Biquad("lowpass", sampleRate, filterFreq);
+        for (let i = 0; i < length; i += CONTROL_RATE) {
+            lowpass.setParams(lowpassFreq.valueAt(i / sampleRate));
+            lowpass.process(body, i, Math.min(i + CONTROL_RATE, length));
+        }
+        new Biquad("highpass", sampleRate, highPassFreq).process(body);
+
+        const gain = new ParamTimeline(1)
+            .setValueAtTime(0.1, 0)
+            .exponentialRampToValueAtTime(volume * 0.8, 0.05)
+            .exponentialRampToValueAtTime(volume * 0.5, duration * 0.9)
+            .exponentialRampToValueAtTime(0.001, duration * 3)
+            .render(length, sampleRate);
+        for (let i = 0; i < length; i++) body[i] *= gain[i];
+
+        // Reverb send taps the signal before the panner, through an 80 Hz highpass
+        const sendData = body.slice();
+        new Biquad("highpass", sampleRate, 80).process(sendData);
+        for (let i = 0; i < length; i++) sendData[i] *= reverbWetLevel;
+
+        const basePan = (this.random() * 2 - 1) * (panRange * 0.3);
+        const pan = new ParamTimeline(basePan)
+            .setValueAtTime(basePan, 0)
+            .linearRampToValueAtTime(-basePan, duration)
+            .render(length, sampleRate);
+        const dry = [new Float32Array(length), new Float32Array(length)];
+        for (let i = 0; i < length; i++) {
+            const [left, right] = panGains(pan[i]);
+            dry[0][i] = body[i] * left;
+            dry[1][i] = body[i] * right;
+        }
+
+        // Sub rumble: 25 → 15 Hz sine
+        const subLength = Math.min(length, Math.floor(sampleRate * duration * 2.5));
+        const subFreq = new ParamTimeline(25)
+            .setValueAtTime(25, 0)
+            .linearRampToValueAtTime(15, duration)
+            .render(subLength, sampleRate);
+        const subGain = new ParamTimeline(0)
+            .setValueAtTime(subLevel * volume * 0.6, 0)
+            .exponentialRampToValueAtTime(0.001, duration * 2.5)
+            .render(subLength, sampleRate);
+        let phase = 0;
+        for (let i = 0; i < subLength; i++) {
+            const sample = Math.sin(phase) * subGain[i];
+            dry[0][i] += sample;
+            dry[1][i] += sample;
+            phase += 2 * Math.PI * subFreq[i] / sampleRate;
+        }
+
+        // Brown-ish crackle tail
+        const tailLength = Math.min(length, Math.floor(sampleRate * duration * 1.5));
+        const tail = new Float32Array(length);
+        let lastOut = 0;
+        for (let i = 0; i < tailLength; i++) {
+            const white = this.random() * 2 - 1;
+            lastOut = (lastOut + 0.02 * white * crackleAmount) / (1.02 + crackleAmount * 0.05);
+            tail[i] = lastOut * 1.5 * Math.exp(-i / (sampleRate * duration));
+        }
+        new Biquad("highpass", sampleRate, 30).process(tail);
+        new Biquad("lowpass", sampleRate, 1500).process(tail);
+        const tailGain = new ParamTimeline(0)
+            .setValueAtTime(volume * 0.6, 0)
+            .exponentialRampToValueAtTime(0.001, duration * 2.5)
+            .render(length, sampleRate);
+        for (let i = 0; i < length; i++) {
+            const sample = tail[i] * tailGain[i];
+            dry[0][i] += sample;
+            dry[1][i] += sample;
+        }
+
+        return { start, dry, send: [sendData, sendData] };
+    }
+
+    private createNWave(params: ThunderParams, start: number): Voice {
+        const { sampleRate } = this;
+        const volume = this.randValue(params.volume, 0.5);
+        const highPassFreq = this.randValue(params.highPassFreq, 10);
+        const panRange = this.randValue(params.panRange, 1);
+        const reverbWetLevel = this.randValue(params.reverbWetLevel, 0.4);
+
+        // N-waves → highpass → gain, with the reverb send through an 80 Hz highpass
+        const dry = generateNWaveThunder(sampleRate, {
+            distance: this.randValue(params.distance, 2000),
+            length: this.randValue(params.channelLength, 3000),
+            tortuosity: this.randValue(params.tortuosity, 0),
+            orientation: this.randValue(params.orientation, 0),
+        }, panRange, this.random, {
+            strokes: this.randValue(params.burstCount, 1),
+            filterFreq: this.randValue(params.filterFreq, 1500),
+            decay: this.randValue(params.duration, 2),
+        });
+        const send = dry.map(channel => {
+            new Biquad("highpass", sampleRate, highPassFreq).process(channel);
+            for (let i = 0; i < channel.length; i++) channel[i] *= volume;
+            const sendData = channel.slice();
+            new Biquad("highpass", sampleRate, 80).process(sendData);
+            for (let i = 0; i < sendData.length; i++) sendData[i] *= reverbWetLevel;
+            return sendData;
+        });
+
+        return { start, dry, send };
+    }
+
+    // Same fallback rules as the browser generator: a zero value falls back to the default
+    private randValue(param: RandParam | undefined, fallback: number): number {
+        if (!param?.value) return fallback;
+        return param.rand ? param.value + this.random() * param.dist : param.value;
+    }
+}
@@ -0,0 +1,46 @@
+/**
+ * A pre-rendered sound event: stereo dry signal plus an optional stereo reverb
+ * send, both starting at the absolute frame `start`.
+ */
+export interface Voice {
+    start: number;
+    dry: Float32Array[];
+    send?: Float32Array[];
+}
+
+/**
+ * Adds the part of every voice that overlaps `[blockStart, blockStart + blockSize)`
+ * into the block buffers. Returns the voices that are still sounding afterwards.
+ */
+export function mixVoices(
+    voices: Voice[],
+    blockStart: number,
+    blockSize: number,
+    dry: Float32Array[],
+    send: Float32Array[]
+): Voice[] {
+    const blockEnd = blockStart + blockSize;
+    const remaining: Voice[] = [];
+
+    for (const voice of voices) {
+        const length = voice.dry[0].length;
+        const from = Math.max(voice.start, blockStart);
+        const to = Math.min(voice.start + length, blockEnd);
+
+        for (let ch = 0; ch < 2; ch++) {
+            const src = voice.dry[ch];
+            const dst = dry[ch];
+            for (let frame = from; frame < to; frame++) dst[frame - blockStart] += src[frame - voice.start];
+
+            if (voice.send) {
+                const sendSrc = voice.send[ch];
+                const sendDst = send[ch];
+                for (let frame = from; frame < to; frame++) sendDst[frame - blockStart] += sendSrc[frame - voice.start];
+            }
+        }
+
+        if (voice.start + length > blockEnd) remaining.push(voice);
+    }
+
+    return remaining;
+}
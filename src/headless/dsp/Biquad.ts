@@ -0,0 +1,105 @@
+export type BiquadType = "lowpass" | "highpass" | "bandpass" | "peaking";
+
+/**
+ * A single-channel biquad using the coefficient formulas of the Web Audio
+ * `BiquadFilterNode`, so headless renders match the browser graph.
+ */
+export class Biquad {
+    private b0 = 1;
+    private b1 = 0;
+    private b2 = 0;
+    private a1 = 0;
+    private a2 = 0;
+    private z1 = 0;
+    private z2 = 0;
+
+    constructor(
+        private type: BiquadType,
+        private sampleRate: number,
+        frequency: number = 350,
+        q: number = 1,
+        gain: number = 0
+    ) {
+        this.setParams(frequency, q, gain);
+    }
+
+    setParams(frequency: number, q: number = 1, gain: number = 0) {
+        const nyquist = this.sampleRate / 2;
+        const w0 = 2 * Math.PI * Math.min(Math.max(frequency, 0), nyquist) / this.sampleRate;
+        const cos = Math.cos(w0);
+        const sin = Math.sin(w0);
+
+        let b0: number, b1: number, b2: number, a0: number, a1: number, a2: number;
+
+        switch (this.type) {
+            case "lowpass": {
+                // Web Audio treats lowpass/highpass Q as resonance in dB
+                const alpha = sin / (2 * Math.pow(10, q / 20));
+                b0 = (1 - cos) / 2;
+                b1 = 1 - cos;
+                b2 = (1 - cos) / 2;
+                a0 = 1 + alpha;
+                a1 = -2 * cos;
+                a2 = 1 - alpha;
+                break;
+            }
+            case "highpass": {
+                const alpha = sin / (2 * Math.pow(10, q / 20));
+                b0 = (1 + cos) / 2;
+                b1 = -(1 + cos);
+                b2 = (1 + cos) / 2;
+                a0 = 1 + alpha;
+                a1 = -2 * cos;
+                a2 = 1 - alpha;
+                break;
+            }
+            case "bandpass": {
+                const alpha = sin / (2 * Math.max(q, 0.0001));
+                b0 = alpha;
+                b1 = 0;
+                b2 = -alpha;
+                a0 = 1 + alpha;
+                a1 = -2 * cos;
+                a2 = 1 - alpha;
+                break;
+            }
+            case "peaking": {
+                const A = Math.pow(10, gain / 40);
+                const alpha = sin / (2 * Math.max(q, 0.0001));
+                b0 = 1 + alpha * A;
+                b1 = -2 * cos;
+                b2 = 1 - alpha * A;
+                a0 = 1 + alpha / A;
+                a1 = -2 * cos;
+                a2 = 1 - alpha / A;
+                break;
+            }
+        }
+
+        this.b0 = b0 / a0;
+        this.b1 = b1 / a0;
+        this.b2 = b2 / a0;
+        this.a1 = a1 / a0;
+        this.a2 = a2 / a0;
+    }
+
+    /**
+     * Filters `data[start..end)` in place (transposed direct form II).
+     */
+    process(data: Float32Array, start: number = 0, end: number = data.length) {
+        const { b0, b1, b2, a1, a2 } = this;
+        let z1 = this.z1;
+        let z2 = this.z2;
+
+        for (let i = start; i < end; i++) {
+            const x = data[i];
+            const y = b0 * x + z1;
+            z1 = b1 * x - a1 * y + z2;
+            z2 = b2 * x - a2 * y;
+            data[i] = y;
+        }
+
+        this.z1 = z1;
+        this.z2 = z2;
+    }
+}
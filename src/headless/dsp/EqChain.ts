@@ -0,0 +1,30 @@
+import { Biquad } from "./Biquad";
+
+/**
+ * Stereo chain of peaking filters, mirroring the 10-band EQ of the generators.
+ * Bands at 0 dB are bypassed since they are an identity filter.
+ */
+export class EqChain {
+    private bands: { gain: number; filters: [Biquad, Biquad] }[];
+
+    constructor(sampleRate: number, frequencies: number[], gains: number[]) {
+        this.bands = frequencies.map((freq, i) => {
+            const gain = gains[i] ?? 0;
+            return {
+                gain,
+                filters: [
+                    new Biquad("peaking", sampleRate, freq, 1, gain),
+                    new Biquad("peaking", sampleRate, freq, 1, gain),
+                ],
+            };
+        });
+    }
+
+    process(channels: Float32Array[], start: number, end: number) {
+        for (const band of this.bands) {
+            if (band.gain === 0) continue;
+            band.filters[0].process(channels[0], start, end);
+            band.filters[1].process(channels[1], start, end);
+        }
+    }
+}
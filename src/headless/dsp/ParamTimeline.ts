@@ -0,0 +1,105 @@
+type TimelineEvent = {
+    type: "set" | "linear" | "exponential";
+    value: number;
+    time: number;
+};
+
+/**
+ * A minimal stand-in for `AudioParam` automation: `setValueAtTime`,
+ * `linearRampToValueAtTime` and `exponentialRampToValueAtTime`, evaluated
+ * with the same interpolation rules.
+ */
+export class ParamTimeline {
+    private events: TimelineEvent[] = [];
+
+    constructor(private defaultValue: number) { }
+
+    setValueAtTime(value: number, time: number): this {
+        return this.insert({ type: "set", value, time });
+    }
+
+    linearRampToValueAtTime(value: number, time: number): this {
+        return this.insert({ type: "linear", value, time });
+    }
+
+    exponentialRampToValueAtTime(value: number, time: number): this {
+        return this.insert({ type: "exponential", value, time });
+    }
+
+    valueAt(time: number): number {
+        let prevValue = this.defaultValue;
+        let prevTime = 0;
+
+        for (const event of this.events) {
+            if (time < event.time) {
+                if (event.type === "set") return prevValue;
+
+                const progress = (time - prevTime) / (event.time - prevTime);
+                if (event.type === "linear") {
+                    return prevValue + (event.value - prevValue) * progress;
+                }
+                // Exponential ramps need both ends on the same side of zero
+                if (prevValue === 0 || prevValue * event.value < 0) return prevValue;
+                return prevValue * Math.pow(event.value / prevValue, progress);
+            }
+
+            prevValue = event.value;
+            prevTime = event.time;
+        }
+
+        return prevValue;
+    }
+
+    /**
+     * Renders the curve at every frame from time 0, which is far cheaper than
+     * calling `valueAt` per sample.
+     */
+    render(length: number, sampleRate: number): Float32Array {
+        const out = new Float32Array(length);
+        let prevValue = this.defaultValue;
+        let prevTime = 0;
+        let frame = 0;
+
+        for (const event of this.events) {
+            const end = Math.min(length, Math.max(frame, Math.ceil(event.time * sampleRate)));
+            const span = event.time - prevTime;
+
+            if (event.type === "linear" && span > 0) {
+                for (; frame < end; frame++) {
+                    out[frame] = prevValue + (event.value - prevValue) * ((frame / sampleRate - prevTime) / span);
+                }
+            } else if (event.type === "exponential" && span > 0 && prevValue !== 0 && prevValue * event.value > 0) {
+                const ratio = event.value / prevValue;
+                const step = Math.pow(ratio, 1 / (span * sampleRate));
+                let value = prevValue * Math.pow(ratio, (frame / sampleRate - prevTime) / span);
+                for (; frame < end; frame++) {
+                    out[frame] = value;
+                    value *= step;
+                }
+            } else {
+                out.fill(prevValue, frame, end);
+                frame = end;
+            }
+
+            prevValue = event.value;
+            prevTime = event.time;
+        }
+
+        out.fill(prevValue, frame);
+        return out;
+    }
+
+    /**
+     * Time of the last automation event, after which the value stays constant.
+     */
+    get endTime(): number {
+        return this.events.length ? this.events[this.events.length - 1].time : 0;
+    }
+
+    private insert(event: TimelineEvent): this {
+        let index = this.events.length;
+        while (index > 0 && this.events[index - 1].time > event.time) index--;
+        this.events.splice(index, 0, event);
+        return this;
+    }
+}
@@ -0,0 +1,129 @@
+import { fft } from "./fft";
+
+/**
+ * Streaming stereo convolution with a long impulse response (uniformly
+ * partitioned overlap-save). Both channels share one complex FFT: left in the
+ * real part, right in the imaginary part. Every call to `process` consumes and
+ * produces exactly `blockSize` frames.
+ */
+export class PartitionedConvolver {
+    private readonly fftSize: number;
+    private readonly bins: number;
+    // Half spectra (bins 0..N/2) of each IR partition, per channel
+    private readonly irL: Float64Array[][] = [];
+    private readonly irR: Float64Array[][] = [];
+    // Frequency-domain delay line of past input spectra
+    private readonly historyL: Float64Array[][] = [];
+    private readonly historyR: Float64Array[][] = [];
+    private readonly prevInput: Float32Array[];
+    private readonly workRe: Float64Array;
+    private readonly workIm: Float64Array;
+    private readonly accL: Float64Array[];
+    private readonly accR: Float64Array[];
+    private cursor = 0;
+
+    constructor(ir: Float32Array[], private readonly blockSize: number) {
+        this.fftSize = blockSize * 2;
+        this.bins = blockSize + 1;
+        this.prevInput = [new Float32Array(blockSize), new Float32Array(blockSize)];
+        this.workRe = new Float64Array(this.fftSize);
+        this.workIm = new Float64Array(this.fftSize);
+        this.accL = [new Float64Array(this.bins), new Float64Array(this.bins)];
+        this.accR = [new Float64Array(this.bins), new Float64Array(this.bins)];
+
+        const left = ir[0];
+        const right = ir[1] ?? ir[0];
+        const length = Math.max(left.length, right.length);
+        const partitions = Math.max(1, Math.ceil(length / blockSize));
+
+        for (let p = 0; p < partitions; p++) {
+            this.workRe.fill(0);
+            this.workIm.fill(0);
+            const offset = p * blockSize;
+            for (let i = 0; i < blockSize; i++) {
+                this.workRe[i] = left[offset + i] ?? 0;
+                this.workIm[i] = right[offset + i] ?? 0;
+            }
+            fft(this.workRe, this.workIm);
+
+            const spectrumL = [new Float64Array(this.bins), new Float64Array(this.bins)];
+            const spectrumR = [new Float64Array(this.bins), new Float64Array(this.bins)];
+            this.split(spectrumL, spectrumR);
+            this.irL.push(spectrumL);
+            this.irR.push(spectrumR);
+            this.historyL.push([new Float64Array(this.bins), new Float64Array(this.bins)]);
+            this.historyR.push([new Float64Array(this.bins), new Float64Array(this.bins)]);
+        }
+    }
+
+    /**
+     * Convolves one stereo block of `input` and adds the result to `output`, scaled by `gain`.
+     */
+    process(input: Float32Array[], output: Float32Array[], gain: number = 1) {
+        const { blockSize, fftSize, bins, workRe, workIm, accL, accR } = this;
+        const partitions = this.irL.length;
+
+        // Spectrum of [previous block, current block] goes into the delay line
+        for (let i = 0; i < blockSize; i++) {
+            workRe[i] = this.prevInput[0][i];
+            workIm[i] = this.prevInput[1][i];
+            workRe[i + blockSize] = input[0][i];
+            workIm[i + blockSize] = input[1][i];
+        }
+        this.prevInput[0].set(input[0].subarray(0, blockSize));
+        this.prevInput[1].set(input[1].subarray(0, blockSize));
+        fft(workRe, workIm);
+        this.split(this.historyL[this.cursor], this.historyR[this.cursor]);
+
+        accL[0].fill(0);
+        accL[1].fill(0);
+        accR[0].fill(0);
+        accR[1].fill(0);
+        for (let p = 0; p < partitions; p++) {
+            const slot = (this.cursor - p + partitions) % partitions;
+            this.multiplyAdd(this.historyL[slot], this.irL[p], accL);
+            this.multiplyAdd(this.historyR[slot], this.irR[p], accR);
+        }
+
+        // Recombine both real outputs into one complex spectrum: Z = YL + i·YR
+        for (let k = 0; k < bins; k++) {
+            workRe[k] = accL[0][k] - accR[1][k];
+            workIm[k] = accL[1][k] + accR[0][k];
+        }
+        for (let k = bins; k < fftSize; k++) {
+            const m = fftSize - k;
+            workRe[k] = accL[0][m] + accR[1][m];
+            workIm[k] = accR[0][m] - accL[1][m];
+        }
+        fft(workRe, workIm, true);
+
+        for (let i = 0; i < blockSize; i++) {
+            output[0][i] += workRe[i + blockSize] * gain;
+            output[1][i] += workIm[i + blockSize] * gain;
+        }
+
+        this.cursor = (this.cursor + 1) % partitions;
+    }
+
+    // Separates the packed spectrum in the work buffers into the two channels' half spectra
+    private split(left: Float64Array[], right: Float64Array[]) {
+        const { fftSize, bins, workRe, workIm } = this;
+        for (let k = 0; k < bins; k++) {
+            const m = (fftSize - k) % fftSize;
+            left[0][k] = (workRe[k] + workRe[m]) / 2;
+            left[1][k] = (workIm[k] - workIm[m]) / 2;
+            right[0][k] = (workIm[k] + workIm[m]) / 2;
+            right[1][k] = (workRe[m] - workRe[k]) / 2;
+        }
+    }
+
+    private multiplyAdd(x: Float64Array[], h: Float64Array[], acc: Float64Array[]) {
+        const [xRe, xIm] = x;
+        const [hRe, hIm] = h;
+        const [accRe, accIm] = acc;
+        for (let k = 0; k < this.bins; k++) {
+            accRe[k] += xRe[k] * hRe[k] - xIm[k] * hIm[k];
+            accIm[k] += xRe[k] * hIm[k] + xIm[k] * hRe[k];
+        }
+    }
+}
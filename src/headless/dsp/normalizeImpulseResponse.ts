@@ -0,0 +1,24 @@
+// ConvolverNode's calibration, from the Web Audio spec's reverb normalization
+const GAIN_CALIBRATION = 0.00125;
+const GAIN_CALIBRATION_SAMPLE_RATE = 44100;
+const MIN_POWER = 0.000125;
+
+/**
+ * Scales an impulse response in place the way a `ConvolverNode` with
+ * `normalize` on does, so the headless reverb is as loud as the browser's.
+ */
+export function normalizeImpulseResponse(ir: Float32Array[], sampleRate: number): Float32Array[] {
+    let sum = 0;
+    let length = 0;
+    ir.forEach(channel => {
+        channel.forEach(value => sum += value * value);
+        length = Math.max(length, channel.length);
+    });
+
+    let power = Math.sqrt(sum / (ir.length * length));
+    if (!Number.isFinite(power) || power < MIN_POWER) power = MIN_POWER;
+    let scale = GAIN_CALIBRATION / power * GAIN_CALIBRATION_SAMPLE_RATE / sampleRate;
+
+    ir.forEach(channel => channel.forEach((value, i) => channel[i] = value * scale));
+    return ir;
+}
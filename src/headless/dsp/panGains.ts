@@ -0,0 +1,7 @@
+/**
+ * Equal-power gains of a `StereoPannerNode` for a mono input.
+ */
+export function panGains(pan: number): [number, number] {
+    const x = (Math.min(1, Math.max(-1, pan)) + 1) / 2;
+    return [Math.cos(x * Math.PI / 2), Math.sin(x * Math.PI / 2)];
+}
@@ -0,0 +1,95 @@
+import { NoiseDParams, _defaultNoiseDParams } from "../NoiseDController";
+import { Random } from "../types/Random";
+import { createSeededRandom, forkRandom } from "../functions/createSeededRandom";
+import { EqChain } from "./dsp/EqChain";
+import { HeadlessRain } from "./HeadlessRain";
+import { HeadlessThunder } from "./HeadlessThunder";
+
+export interface HeadlessRenderOptions {
+    /** Length of the render in seconds. */
+    duration: number;
+    sampleRate?: number;
+    /** Overrides `params.seed`, like the controller's `random` argument. */
+    random?: Random;
+    /** Frames processed per step; also the reverb partition size, so a power of two. */
+    blockSize?: number;
+}
+
+// Rain params the headless renderer doesn't render yet
+const unsupportedRainParams = ["dropSurfaces", "dropModel", "dropLayers", "dropTiming"] as const;
+
+/**
+ * Returns the `rainParams` fields of `preset` that `renderScene` ignores and
+ * that differ from the defaults, so the output would not sound as the preset asks.
+ */
+export function ignoredRainParams(preset: Partial<NoiseDParams>): string[] {
+    const rainParams: Partial<NoiseDParams["rainParams"]> = preset.rainParams ?? {};
+    return unsupportedRainParams.filter(key =>
+        rainParams[key] !== undefined
+        && JSON.stringify(rainParams[key]) !== JSON.stringify(_defaultNoiseDParams.rainParams[key])
+    );
+}
+
+/**
+ * Renders a V1 `NoiseDParams` preset (as produced by `exportParamsAsJSON`)
+ * to planar stereo samples without Web Audio, so it runs in plain Node.
+ * Rain and thunder are rendered; `windParams` is ignored for now, and drops
+ * are always plain noise drops whatever `dropSurfaces` and `dropModel` say.
+ * `dropLayers` and `dropTiming` are ignored too; the top-level drop params are
+ * rendered at evenly spaced times. `ignoredRainParams` lists the ones a preset sets.
+ */
+export function renderScene(preset: Partial<NoiseDParams>, options: HeadlessRenderOptions): Float32Array[] {
+    const sampleRate = options.sampleRate ?? 44100;
+    const blockSize = options.blockSize ?? 8192;
+    // The reverb's FFT works on twice the block size
+    if (!Number.isInteger(blockSize) || blockSize < 1 || (blockSize & (blockSize - 1)) !== 0) {
+        throw new RangeError(`blockSize must be a power of two, got ${blockSize}`);
+    }
+    const params: NoiseDParams = {
+        ..._defaultNoiseDParams,
+        ...preset,
+        // Presets may carry only the fields that differ from the defaults
+        rainParams: { ..._defaultNoiseDParams.rainParams, ...preset.rainParams },
+        thunderParams: { ..._defaultNoiseDParams.thunderParams, ...preset.thunderParams },
+    };
+
+    // Streams are forked in the same order as in NoiseDController
+    const random = options.random
+        ?? (params.seed !== undefined ? createSeededRandom(params.seed) : Math.random);
+    const rain = new HeadlessRain(sampleRate, params.rainParams, forkRandom(random), blockSize);
+    const thunder = new HeadlessThunder(sampleRate, params.thunderParams, forkRandom(random), blockSize);
+    const eq = new EqChain(sampleRate, [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000], params.eqGains);
+
+    const frames = Math.ceil(options.duration * sampleRate);
+    const output = [new Float32Array(frames), new Float32Array(frames)];
+    const block = [new Float32Array(blockSize), new Float32Array(blockSize)];
+
+    const nextThunderDelay = () => {
+        const { min, max } = params.delayBetweenThunders;
+        return Math.round((random() * (max - min) + min) / 1000 * sampleRate);
+    };
+    let nextThunder = params.thunderParams.on ? nextThunderDelay() : Infinity;
+
+    for (let blockStart = 0; blockStart < frames; blockStart += blockSize) {
+        block[0].fill(0);
+        block[1].fill(0);
+
+        while (nextThunder < blockStart + blockSize) {
+            thunder.trigger(nextThunder);
+            nextThunder += nextThunderDelay();
+        }
+
+        if (params.rainParams.on) rain.process(blockStart, block);
+        thunder.process(blockStart, block);
+        eq.process(block, 0, blockSize);
+
+        const count = Math.min(blockSize, frames - blockStart);
+        for (let ch = 0; ch < 2; ch++) {
+            const out = output[ch];
+            const src = block[ch];
+            for (let i = 0; i < count; i++) out[blockStart + i] = src[i] * params.masterVolume;
+        }
+    }
+
+    return output;
+}
@@ -1,17 +1,102 @@
 export * from "./NoiseDController";
 export * from "./RainGenerator";
 export * from "./ThunderGenerator";
+export * from "./WindGenerator";
+export * from "./functions/createSeededRandom";
+export type { Random } from "./types/Random";
+export * from "./functions/encodeWav";
+export * from "./functions/validateParams";
+export * from "./errors/ParamValidationError";
+export type * from "./types/ParamSchema";
+export * from "./events/EventEmitter";
+export * from "./scheduling/LookaheadScheduler";
+export type * from "./types/Surface";
+export type * from "./types/DropModel";
+export type * from "./types/DropLayer";
+export type * from "./types/DropTiming";
+export type * from "./types/ThunderModel";
+export type * from "./types/ThunderType";
+export { dropTimingSchema, _defaultDropTiming as defaultDropTiming } from "./scheduling/DropTimer";
+export { dropLayerPresets, dropLayerSchema, _defaultDropLayer as defaultDropLayer } from "./functions/dropLayers";
+export { sampleDropRadius } from "./functions/scheduleBubbleDrop";
+export { noiseTypes } from "./functions/fillNoise";
+export * from "./functions/createNoiseBed";
+export * from "./functions/generateNWaveThunder";
+export { thunderTypePresets, thunderTypes, thunderTypeWeightsSchema, _defaultThunderTypeWeights as defaultThunderTypeWeights } from "./functions/thunderTypes";
+export type { ThunderTypePreset } from "./functions/thunderTypes";
+export { surfaceModels, surfaces, surfaceWeightsSchema } from "./functions/scheduleSurfaceImpact";
+export type { SurfaceModel, SurfaceResonance } from "./functions/scheduleSurfaceImpact";
+export type * from "./types/NoiseDEvents";
+export { renderScene, ignoredRainParams } from "./headless/renderScene";
+export type { HeadlessRenderOptions } from "./headless/renderScene";
 export * as NoiseDParamsV2 from "./V2/types/NoiseDParams";
 export * as RainParamsV2 from "./V2/types/RainParams";
 export * as ThunderParamsV2 from "./V2/types/ThunderParams";
+export * as WindParamsV2 from "./V2/types/WindParams";
+export * as OceanParamsV2 from "./V2/types/OceanParams";
+export * as FireParamsV2 from "./V2/types/FireParams";
+export * as StreamParamsV2 from "./V2/types/StreamParams";
+export * as TrafficParamsV2 from "./V2/types/TrafficParams";
+export * as HailParamsV2 from "./V2/types/HailParams";
+export * as DripParamsV2 from "./V2/types/DripParams";
+export * as GranularParamsV2 from "./V2/types/GranularParams";
 export * as IGeneratorV2 from "./V2/IGenerator";
 export * as BaseGeneratorV2 from "./V2/BaseGenerator";
-export { NoiseDController as NoiseDControllerV2 } from "./V2/NoiseDController";
+export type { ClockDriver } from "./types/ClockDriver";
+export * from "./scheduling/clockDrivers";
+export * from "./V2/GeneratorRegistry";
+export type { DeepPartial } from "./V2/types/ParamPath";
+export type { GeneratorInstance } from "./V2/types/GeneratorInstance";
+export { Mixer, channelStripSchema, sendBusSchema } from "./V2/Mixer";
+export type * from "./V2/types/MixerParams";
+export { NoiseDController as NoiseDControllerV2, noiseDParamsSchemaV2 } from "./V2/NoiseDController";
 export {
     RainGenerator as RainGeneratorV2,
-    _defaultRainParamsV2 as defaultRainParamsV2
+    _defaultRainParamsV2 as defaultRainParamsV2,
+    rainParamsSchemaV2
 } from "./V2/RainGenerator";
 export {
     ThunderGenerator as ThunderGeneratorV2,
-    _defaultThunderParamsV2 as defaultThunderParamsV2
+    _defaultThunderParamsV2 as defaultThunderParamsV2,
+    thunderParamsSchemaV2
 } from "./V2/ThunderGenerator";
+export {
+    WindGenerator as WindGeneratorV2,
+    _defaultWindParamsV2 as defaultWindParamsV2,
+    windParamsSchemaV2
+} from "./V2/WindGenerator";
+export {
+    OceanGenerator as OceanGeneratorV2,
+    _defaultOceanParamsV2 as defaultOceanParamsV2,
+    oceanParamsSchemaV2
+} from "./V2/OceanGenerator";
+export {
+    FireGenerator as FireGeneratorV2,
+    _defaultFireParamsV2 as defaultFireParamsV2,
+    fireParamsSchemaV2
+} from "./V2/FireGenerator";
+export {
+    StreamGenerator as StreamGeneratorV2,
+    _defaultStreamParamsV2 as defaultStreamParamsV2,
+    streamParamsSchemaV2
+} from "./V2/StreamGenerator";
+export {
+    TrafficGenerator as TrafficGeneratorV2,
+    _defaultTrafficParamsV2 as defaultTrafficParamsV2,
+    trafficParamsSchemaV2
+} from "./V2/TrafficGenerator";
+export {
+    HailGenerator as HailGeneratorV2,
+    _defaultHailParamsV2 as defaultHailParamsV2,
+    hailParamsSchemaV2
+} from "./V2/HailGenerator";
+export {
+    DripGenerator as DripGeneratorV2,
+    _defaultDripParamsV2 as defaultDripParamsV2,
+    dripParamsSchemaV2
+} from "./V2/DripGenerator";
+export {
+    GranularGenerator as GranularGeneratorV2,
+    _defaultGranularParamsV2 as defaultGranularParamsV2,
+    granularParamsSchemaV2
+} from "./V2/GranularGenerator";
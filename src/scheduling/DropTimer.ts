@@ -0,0 +1,85 @@
+import { Random } from "../types/Random";
+import { ParamSchema } from "../types/ParamSchema";
+import { DropTimingParams } from "../types/DropTiming";
+
+export const _defaultDropTiming: DropTimingParams = {
+    model: 'regular',
+    clusterSize: 4,
+    clusterSpread: 0.08,
+    fluctuation: 0,
+    fluctuationPeriod: 20,
+};
+
+export const dropTimingSchema: ParamSchema<DropTimingParams> = {
+    model: { kind: "enum", values: ["regular", "poisson", "clustered"], default: _defaultDropTiming.model, description: "How drops are spaced in time" },
+    clusterSize: { kind: "number", min: 1, max: 50, unit: "drops", default: _defaultDropTiming.clusterSize, description: "Mean number of drops in a cluster" },
+    clusterSpread: { kind: "number", min: 0.001, max: 2, unit: "s", default: _defaultDropTiming.clusterSpread, description: "Mean length of a cluster" },
+    fluctuation: { kind: "number", min: 0, max: 1, unit: "", default: _defaultDropTiming.fluctuation, description: "Depth of the slow density drift" },
+    fluctuationPeriod: { kind: "number", min: 1, max: 600, unit: "s", default: _defaultDropTiming.fluctuationPeriod, description: "Period of the slow density drift" },
+};
+
+// Ratio of the two swings of the fluctuation, so it never repeats exactly
+const GOLDEN = 1.618;
+
+/**
+ * Draws the gaps between drops for one drop stream. Whatever the model, the
+ * drops average out to `rate` per second over a fluctuation period.
+ */
+export class DropTimer {
+    private random: Random;
+    private phases: [number, number];
+    // Drops still to come in the current cluster
+    private clusterLeft = 0;
+
+    constructor(random: Random) {
+        this.random = random;
+        this.phases = [random() * 2 * Math.PI, random() * 2 * Math.PI];
+    }
+
+    /** Seconds from a drop at `time` (any clock) to the next one. */
+    next(time: number, rate: number, timing: DropTimingParams): number {
+        const current = rate * this.density(time, timing);
+
+        switch (timing.model) {
+            case 'poisson':
+                return this.exponential(1 / current);
+            case 'clustered':
+                return this.nextClustered(current, timing);
+            default:
+                return 1 / current;
+        }
+    }
+
+    // Clusters start as a Poisson process at rate / size; inside one, drops follow closely
+    private nextClustered(rate: number, timing: DropTimingParams): number {
+        const size = timing.clusterSize;
+        // Dense rain squeezes the clusters so they can't take up more than half the time
+        const within = Math.min(timing.clusterSpread / size, 0.5 / rate);
+        if (this.clusterLeft > 0) {
+            this.clusterLeft--;
+            return this.exponential(within);
+        }
+
+        // Geometric number of follow-up drops, so clusters hold `size` drops on average
+        const stay = 1 - 1 / size;
+        let followers = 0;
+        while (this.random() < stay) followers++;
+        this.clusterLeft = followers;
+
+        // Time spent inside clusters doesn't count towards the rate
+        return this.exponential(size / rate - (size - 1) * within);
+    }
+
+    // Two slow swings at incommensurate periods; averages to 1
+    private density(time: number, timing: DropTimingParams): number {
+        const { fluctuation, fluctuationPeriod } = timing;
+        if (fluctuation <= 0) return 1;
+        const w = (2 * Math.PI * time) / fluctuationPeriod;
+        const swing = 0.6 * Math.sin(w + this.phases[0]) + 0.4 * Math.sin(w / GOLDEN + this.phases[1]);
+        return Math.max(0.05, 1 + fluctuation * swing);
+    }
+
+    private exponential(mean: number): number {
+        return -Math.log(1 - this.random()) * mean;
+    }
+}
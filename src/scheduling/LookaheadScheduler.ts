@@ -0,0 +1,138 @@
+import { ClockDriver } from "../types/ClockDriver";
+import { createAudioClockDriver } from "./clockDrivers";
+
+/**
+ * Called shortly before `when` (audio clock) so the callback can schedule its
+ * sound with `start(when)`. `late` is true when `when` has already passed,
+ * e.g. after the timer was throttled in a background tab. Return a later time
+ * to be called again then, or nothing to finish.
+ */
+export type ScheduledCallback = (when: number, late: boolean) => number | null | void;
+
+interface Task {
+    time: number;
+    callback: ScheduledCallback;
+}
+
+// How far an OfflineAudioContext renders between two suspensions, in seconds
+const OFFLINE_STEP = 0.5;
+
+const schedulers = new WeakMap<BaseAudioContext, LookaheadScheduler>();
+
+/**
+ * Queues events ahead of time on the audio clock. In real time it wakes up
+ * every `intervalMs` and runs every callback due within the next `lookahead`
+ * seconds, so main-thread jitter no longer reaches the audio. The wake-ups
+ * come from `driver`, by default paced by the audio thread, so hidden tabs
+ * whose timers are throttled keep their events.
+ * In an `OfflineAudioContext`, where timers have nothing to do with render
+ * time, the render is suspended every half second instead.
+ *
+ * There is one scheduler per context (`LookaheadScheduler.for(ctx)`), shared
+ * by every generator playing into it.
+ */
+export class LookaheadScheduler {
+    /** How far ahead of the audio clock events are scheduled, in seconds. Raise it to ride out throttled timers. */
+    lookahead = 0.1;
+    /** Wake-up interval in real time, in milliseconds; read when the wake-ups (re)start. */
+    intervalMs = 25;
+    /** What wakes the scheduler up in real time, read like `intervalMs`; `createTimerDriver` brings back the plain timer. */
+    driver: ClockDriver | null = null;
+
+    private tasks = new Set<Task>();
+    private stopWakeUps: (() => void) | null = null;
+    private offlineArmed = false;
+    private advancing = false;
+
+    static for(ctx: BaseAudioContext): LookaheadScheduler {
+        let scheduler = schedulers.get(ctx);
+        if (!scheduler) {
+            scheduler = new LookaheadScheduler(ctx);
+            schedulers.set(ctx, scheduler);
+        }
+        return scheduler;
+    }
+
+    private constructor(private ctx: BaseAudioContext) { }
+
+    /**
+     * Runs `callback` ahead of `time`, and again at every later time it returns.
+     * Returns a function that cancels the task.
+     */
+    schedule(time: number, callback: ScheduledCallback): () => void {
+        const task: Task = { time, callback };
+        this.tasks.add(task);
+
+        // Callbacks that schedule more tasks are picked up by the running loop
+        if (!this.advancing) this.advance(this.horizon());
+        this.ensureRunning();
+
+        return () => this.tasks.delete(task);
+    }
+
+    /**
+     * Runs every task due before `until`, in time order.
+     */
+    advance(until: number) {
+        this.advancing = true;
+        try {
+            for (let task = this.nextDue(until); task; task = this.nextDue(until)) {
+                const next = task.callback(task.time, task.time < this.ctx.currentTime);
+                if (typeof next === "number" && next > task.time && this.tasks.has(task)) {
+                    task.time = next;
+                } else {
+                    this.tasks.delete(task);
+                }
+            }
+        } finally {
+            this.advancing = false;
+        }
+    }
+
+    private nextDue(until: number): Task | undefined {
+        let due: Task | undefined;
+        this.tasks.forEach(task => {
+            if (task.time < until && (!due || task.time < due.time)) due = task;
+        });
+        return due;
+    }
+
+    private horizon(): number {
+        return this.ctx.currentTime + (this.isOffline() ? OFFLINE_STEP * 2 : this.lookahead);
+    }
+
+    private isOffline(): boolean {
+        return typeof OfflineAudioContext !== "undefined" && this.ctx instanceof OfflineAudioContext;
+    }
+
+    private ensureRunning() {
+        if (this.tasks.size === 0) return;
+
+        if (this.isOffline()) {
+            this.armOfflineStep(this.ctx as OfflineAudioContext);
+        } else if (!this.stopWakeUps) {
+            const driver = this.driver ?? createAudioClockDriver(this.intervalMs / 1000);
+            this.stopWakeUps = driver.start(this.ctx, () => {
+                if (this.tasks.size === 0) {
+                    this.stopWakeUps?.();
+                    this.stopWakeUps = null;
+                    return;
+                }
+                this.advance(this.horizon());
+            });
+        }
+    }
+
+    private armOfflineStep(ctx: OfflineAudioContext) {
+        const at = ctx.currentTime + OFFLINE_STEP;
+        if (this.offlineArmed || at >= ctx.length / ctx.sampleRate) return;
+
+        this.offlineArmed = true;
+        ctx.suspend(at).then(() => {
+            this.offlineArmed = false;
+            this.advance(this.horizon());
+            this.ensureRunning();
+            ctx.resume();
+        });
+    }
+}
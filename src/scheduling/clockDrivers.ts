@@ -0,0 +1,77 @@
+import { ClockDriver } from "../types/ClockDriver";
+
+/**
+ * Ticks every `intervalMs` from `setInterval`. Simple, but browsers throttle
+ * timers in background tabs.
+ */
+export function createTimerDriver(intervalMs: number = 25): ClockDriver {
+    return {
+        start(ctx, tick) {
+            let last = ctx.currentTime;
+            const timer = setInterval(() => {
+                const now = ctx.currentTime;
+                tick(now - last);
+                last = now;
+            }, intervalMs);
+            return () => clearInterval(timer);
+        },
+    };
+}
+
+/**
+ * Ticks every `interval` seconds from the `ended` event of a silent source
+ * node, so the audio thread sets the pace and background tabs keep ticking.
+ */
+export function createAudioClockDriver(interval: number = 0.025): ClockDriver {
+    return {
+        start(ctx, tick) {
+            const silence = ctx.createGain();
+            silence.gain.value = 0;
+            silence.connect(ctx.destination);
+
+            let last = ctx.currentTime;
+            let source: ConstantSourceNode | null = null;
+            let stopped = false;
+
+            const next = () => {
+                source = ctx.createConstantSource();
+                source.connect(silence);
+                source.onended = () => {
+                    if (stopped) return;
+                    const now = ctx.currentTime;
+                    tick(now - last);
+                    last = now;
+                    // The tick may have stopped the driver
+                    if (!stopped) next();
+                };
+                source.start();
+                source.stop(ctx.currentTime + interval);
+            };
+            next();
+
+            return () => {
+                stopped = true;
+                source?.disconnect();
+                silence.disconnect();
+            };
+        },
+    };
+}
+
+/**
+ * Ticks whenever a host loop calls back, e.g. a game engine's update hook.
+ * `subscribe` registers the callback and returns a function that removes it;
+ * `dt` is measured on the audio clock.
+ */
+export function createHostDriver(subscribe: (callback: () => void) => () => void): ClockDriver {
+    return {
+        start(ctx, tick) {
+            let last = ctx.currentTime;
+            return subscribe(() => {
+                const now = ctx.currentTime;
+                tick(now - last);
+                last = now;
+            });
+        },
+    };
+}
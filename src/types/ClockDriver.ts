@@ -0,0 +1,7 @@
+/**
+ * Drives `tick(dt)` on its own, with `dt` in seconds of audio time.
+ * `start` begins ticking and returns a function that stops it.
+ */
+export interface ClockDriver {
+    start(ctx: BaseAudioContext, tick: (dt: number) => void): () => void;
+}
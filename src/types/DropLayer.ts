@@ -0,0 +1,14 @@
+/** One stream of drops in a layered rain scene. */
+export interface DropLayerParams {
+    /** Dry level of the layer's drops. */
+    level: number;
+    reverbSend: number;
+    rate: number;
+    minPitch: number;
+    maxPitch: number;
+    decayTime: number;
+    q: number;
+    panRange: number;
+    /** Lowpass cutoff of the layer; low values turn far drops into a wash. */
+    filterFreq: number;
+}
@@ -0,0 +1,5 @@
+/** `noise` is a filtered noise burst, `bubble` an impact click plus a ringing air bubble. */
+export type DropModel = 'noise' | 'bubble';
+
+/** How drop radii spread around their mean; `exponential` gives many small drops and a few big ones. */
+export type DropSizeDistribution = 'uniform' | 'normal' | 'exponential';
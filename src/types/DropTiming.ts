@@ -0,0 +1,17 @@
+/**
+ * `regular` spaces drops evenly, `poisson` draws independent random gaps and
+ * `clustered` lets drops arrive in bursts, like splatter driven by gusts.
+ */
+export type DropTimingModel = 'regular' | 'poisson' | 'clustered';
+
+export interface DropTimingParams {
+    model: DropTimingModel;
+    /** Mean number of drops in a cluster. */
+    clusterSize: number;
+    /** Mean length of a cluster in seconds. */
+    clusterSpread: number;
+    /** 0..1, how far the density drifts above and below the drop rate. */
+    fluctuation: number;
+    /** Seconds of a slow density swing. */
+    fluctuationPeriod: number;
+}
@@ -0,0 +1,48 @@
+import { ThunderType } from "./ThunderType";
+
+/**
+ * All event times are in the audio clock (`AudioContext.currentTime`) and
+ * mark when the sound starts, which may be slightly in the future when the
+ * event is emitted.
+ */
+
+export interface ThunderScheduledEvent {
+    /** When the thunder will start sounding. */
+    time: number;
+    /** How far ahead of `time` the event was emitted, in seconds: `delayMs` plus the lead time. */
+    leadTime: number;
+    /** The thunder type picked from the weighted mix, if any. */
+    type?: ThunderType;
+}
+
+export interface ThunderStartEvent {
+    time: number;
+    volume: number;
+    pan: number;
+}
+
+export interface BurstEvent {
+    time: number;
+    volume: number;
+    pan: number;
+    /** Position of the burst within its thunder, starting at 0. */
+    index: number;
+}
+
+export interface DropEvent {
+    time: number;
+    pitch: number;
+    pan: number;
+}
+
+export type RainEvents = {
+    drop: DropEvent;
+};
+
+export type ThunderEvents = {
+    thunderScheduled: ThunderScheduledEvent;
+    thunderStart: ThunderStartEvent;
+    burst: BurstEvent;
+};
+
+export type NoiseDEvents = RainEvents & ThunderEvents;
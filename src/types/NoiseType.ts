@@ -0,0 +1 @@
+export type NoiseType = 'pink' | 'white' | 'brown' | 'blue' | 'violet' | 'velvet';
@@ -0,0 +1,81 @@
+import { OscParam } from "./OscParam";
+import { RandParam } from "./RandParam";
+
+type Range<T = number> = {
+    min: T;
+    max: T;
+};
+
+interface BaseSpec<TDefault> {
+    default: TDefault;
+    description: string;
+}
+
+export interface NumberSpec extends BaseSpec<number> {
+    kind: "number";
+    min: number;
+    max: number;
+    unit: string;
+    integer?: boolean;
+}
+
+/** Bounds apply to `value`; `amp` and `freq` are kept non-negative. */
+export interface OscSpec extends BaseSpec<OscParam> {
+    kind: "osc";
+    min: number;
+    max: number;
+    unit: string;
+}
+
+/** Bounds apply to `value`; `dist` is kept within the width of the range. */
+export interface RandSpec extends BaseSpec<RandParam> {
+    kind: "rand";
+    min: number;
+    max: number;
+    unit: string;
+}
+
+export interface RangeSpec extends BaseSpec<Range<number>> {
+    kind: "range";
+    min: number;
+    max: number;
+    unit: string;
+}
+
+export interface EnumSpec<T extends string = string> extends BaseSpec<T> {
+    kind: "enum";
+    values: readonly T[];
+}
+
+export interface BooleanSpec extends BaseSpec<boolean> {
+    kind: "boolean";
+}
+
+export interface ArraySpec extends BaseSpec<number[]> {
+    kind: "array";
+    length: number;
+    item: Omit<NumberSpec, "default" | "description"> & { default: number };
+}
+
+export type ParamSpec = NumberSpec | OscSpec | RandSpec | RangeSpec | EnumSpec | BooleanSpec | ArraySpec;
+
+export type SpecFor<V> =
+    [V] extends [OscParam] ? OscSpec :
+    [V] extends [RandParam] ? RandSpec :
+    [V] extends [number] ? NumberSpec :
+    [V] extends [boolean] ? BooleanSpec :
+    [V] extends [string] ? EnumSpec<V> :
+    [V] extends [number[]] ? ArraySpec :
+    [V] extends [Range<number>] ? RangeSpec :
+    [V] extends [object] ? ParamSchema<V> :
+    never;
+
+/**
+ * Describes every field of a params object: limits, unit, default and a
+ * human readable description. Nested param groups get nested schemas.
+ */
+export type ParamSchema<T> = {
+    [K in keyof T]-?: SpecFor<NonNullable<T[K]>>;
+};
+
+export type ValidationMode = "clamp" | "throw";
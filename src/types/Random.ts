@@ -0,0 +1,4 @@
+/**
+ * A source of uniformly distributed numbers in [0, 1), shaped like `Math.random`.
+ */
+export type Random = () => number;
@@ -0,0 +1,4 @@
+export type Surface = 'tin' | 'glass' | 'tent' | 'umbrella' | 'leaves' | 'puddle' | 'concrete';
+
+/** Relative share of drops landing on each surface; all 0 keeps the plain noise drops. */
+export type SurfaceWeights = Record<Surface, number>;
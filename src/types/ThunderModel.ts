@@ -0,0 +1,2 @@
+/** `classic` is enveloped noise bursts over a sine rumble, `nwave` N-waves from a randomized lightning channel. */
+export type ThunderModel = 'classic' | 'nwave';
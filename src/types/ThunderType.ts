@@ -0,0 +1,4 @@
+export type ThunderType = 'closeCrack' | 'cloudToGround' | 'intracloudRoll' | 'distantRumble';
+
+/** Relative share of thunders of each type; all 0 plays every thunder from the params as they are. */
+export type ThunderTypeWeights = Record<ThunderType, number>;
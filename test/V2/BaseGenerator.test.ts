@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { BaseGenerator } from "../../src/V2/BaseGenerator";
+import { recordSchema } from "../../src/functions/validateParams";
+import { ParamSchema } from "../../src/types/ParamSchema";
+
+interface TestParams {
+    const: {
+        main: { volume: number; eqGains: number[] };
+        reverb: { wetLevel: number };
+        layers: Record<string, { rate: number }>;
+    };
+}
+
+const schema: ParamSchema<TestParams> = {
+    const: {
+        main: {
+            volume: { kind: "number", min: 0, max: 1, unit: "gain", default: 0.5, description: "Volume" },
+            eqGains: { kind: "array", length: 2, item: { kind: "number", min: -40, max: 40, unit: "dB", default: 0 }, default: [0, 0], description: "EQ" },
+        },
+        reverb: {
+            wetLevel: { kind: "number", min: 0, max: 1, unit: "gain", default: 0.2, description: "Wet level" },
+        },
+        layers: recordSchema<{ rate: number }>({
+            rate: { kind: "number", min: 0, max: 100, unit: "drops/s", default: 10, description: "Rate" },
+        }),
+    },
+};
+
+class TestGenerator extends BaseGenerator<TestParams> {
+    constructor(params: TestParams) {
+        const node = { connect: () => node, gain: { value: 1 } };
+        const ctx = { createGain: () => node } as unknown as BaseAudioContext;
+        super(ctx, node as unknown as AudioNode, params, false);
+        this.schema = schema;
+    }
+
+    start() { }
+    stop() { }
+    destroy() { }
+}
+
+function createParams(): TestParams {
+    return {
+        const: {
+            main: { volume: 0.5, eqGains: [1, 2] },
+            reverb: { wetLevel: 0.2 },
+            layers: { near: { rate: 4 }, far: { rate: 40 } },
+        },
+    };
+}
+
+describe("BaseGenerator.updateParams", () => {
+    it("keeps sibling params on a nested partial update", () => {
+        const generator = new TestGenerator(createParams());
+        generator.updateParams({ const: { main: { volume: 0.8 } } });
+
+        expect(generator.getParams().const).toEqual({
+            main: { volume: 0.8, eqGains: [1, 2] },
+            reverb: { wetLevel: 0.2 },
+            layers: { near: { rate: 4 }, far: { rate: 40 } },
+        });
+    });
+
+    it("still validates the merged values", () => {
+        const generator = new TestGenerator(createParams());
+        generator.updateParams({ const: { reverb: { wetLevel: 3 } } });
+
+        expect(generator.getParams().const.reverb.wetLevel).toBe(1);
+        expect(generator.getParams().const.main.volume).toBe(0.5);
+    });
+
+    it("replaces named records whole", () => {
+        const generator = new TestGenerator(createParams());
+        generator.updateParams({ const: { layers: { near: { rate: 8 } } } });
+
+        expect(generator.getParams().const.layers).toEqual({ near: { rate: 8 } });
+    });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { _defaultNoiseDParams } from "../../src/NoiseDController";
+import { renderScene } from "../../src/headless/renderScene";
+
+function peak(channels: Float32Array[]): number {
+    let max = 0;
+    channels.forEach(channel => channel.forEach(value => max = Math.max(max, Math.abs(value))));
+    return max;
+}
+
+describe("renderScene", () => {
+    it("stays below full scale with the default preset", () => {
+        const output = renderScene({ seed: 1 }, { duration: 20 });
+        expect(peak(output)).toBeLessThan(1);
+    });
+
+    it("keeps the rain reverb near the level of the dry drops", () => {
+        const thunderParams = { ..._defaultNoiseDParams.thunderParams, on: false };
+        const rainParams = { ..._defaultNoiseDParams.rainParams, dropWetLevel: 0 };
+        const wet = renderScene({ seed: 1, thunderParams }, { duration: 5 });
+        const dry = renderScene({ seed: 1, thunderParams, rainParams }, { duration: 5 });
+        expect(peak(wet)).toBeLessThan(peak(dry) * 4);
+    });
+});